@@ -0,0 +1,178 @@
+import { type NextRequest, NextResponse } from "next/server"
+import * as path from "path"
+import { parseExceptionChain, flattenExceptions, deduplicateEntries, getEntryKey } from "@/lib/stack-trace-parser"
+import { AnalysisContext } from "@/lib/analysis-context"
+import { analyzeEntry, STEPS_PER_ENTRY, type AnalysisResult } from "@/lib/frame-analyzer"
+import { loadConfig, getSearchOrder, getFrameRules, validateProjectRoot, type RepositoryConfig } from "@/lib/config"
+import { StackTraceAnalyzerError, ErrorCodes, handleError } from "@/lib/error-handler"
+import { hasSourceFile, isValidRevision, resolveRepositoryRevisions } from "@/lib/git-revision"
+import { isValidVersion, resolveRepositoryVersions } from "@/lib/version-resolver"
+import { validateDateRange, resolveDateRange } from "@/lib/date-range"
+import { countFileLines } from "@/lib/file-finder"
+
+/**
+ * Re-run location and blame for one frame of a stack trace, against a file and/or exact line range picked by the user
+ * The frame is identified like the streamed results: its exception id and getEntryKey
+ * Pass the revision or version of the full analysis so the frame is re-run against the same commit
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      stackTrace,
+      startDate,
+      endDate,
+      startTag,
+      endTag,
+      repository: repositoryName,
+      contextLines,
+      exceptionId,
+      frameKey,
+      file,
+      lineRange,
+      revision,
+      version,
+      methodHistory,
+    } = await request.json()
+
+    if (!stackTrace || !exceptionId || !frameKey) {
+      return NextResponse.json({ error: "Missing stackTrace, exceptionId or frameKey" }, { status: 400 })
+    }
+
+    // Each end of the window is a date or a tag; tags are resolved once the repositories are known
+    const dateRangeError = validateDateRange({ startDate, endDate, startTag, endTag })
+    if (dateRangeError) {
+      return NextResponse.json({ error: dateRangeError }, { status: 400 })
+    }
+
+    if (contextLines !== undefined && (!Number.isInteger(contextLines) || contextLines < 0)) {
+      return NextResponse.json({ error: "contextLines must be a non-negative integer" }, { status: 400 })
+    }
+
+    if (revision !== undefined && (typeof revision !== "string" || !isValidRevision(revision))) {
+      return NextResponse.json({ error: "Invalid revision. Use a commit SHA, tag or branch name" }, { status: 400 })
+    }
+
+    if (version !== undefined && (typeof version !== "string" || !isValidVersion(version))) {
+      return NextResponse.json({ error: "Invalid version. Use e.g. 25.3.1042 or 25.3.1042+a1b2c3d" }, { status: 400 })
+    }
+
+    if (revision !== undefined && version !== undefined) {
+      return NextResponse.json({ error: "Pass either a revision or a version, not both" }, { status: 400 })
+    }
+
+    if (methodHistory !== undefined && typeof methodHistory !== "boolean") {
+      return NextResponse.json({ error: "methodHistory must be true or false" }, { status: 400 })
+    }
+
+    if (!file && !lineRange) {
+      return NextResponse.json({ error: "Pick a file or a line range" }, { status: 400 })
+    }
+
+    if (file && (typeof file.repository !== "string" || typeof file.relativePath !== "string")) {
+      return NextResponse.json({ error: "Missing file repository or relativePath" }, { status: 400 })
+    }
+
+    if (
+      lineRange &&
+      (!Number.isInteger(lineRange.start) ||
+        !Number.isInteger(lineRange.end) ||
+        lineRange.start < 1 ||
+        lineRange.end < lineRange.start)
+    ) {
+      return NextResponse.json(
+        { error: "lineRange needs whole start and end lines, with start >= 1 and end >= start" },
+        { status: 400 },
+      )
+    }
+
+    const config = loadConfig()
+    const repositories = getSearchOrder(config, repositoryName)
+    for (const repository of repositories) {
+      await validateProjectRoot(repository.root)
+    }
+    const dateRange = await resolveDateRange({ startDate, endDate, startTag, endTag }, repositories)
+    const revisions = revision
+      ? await resolveRepositoryRevisions(revision, repositories)
+      : version
+        ? await resolveRepositoryVersions(version, repositories)
+        : []
+
+    // The picked file must stay inside its repository, and exist at the commit it is analyzed at
+    let picked: { repository: RepositoryConfig; filePath: string; typeName?: string } | undefined
+    if (file) {
+      const target = repositories.find((r) => r.name === file.repository)
+      if (!target) {
+        return NextResponse.json({ error: `Unknown repository "${file.repository}"` }, { status: 400 })
+      }
+
+      const root = path.resolve(target.root)
+      const filePath = path.resolve(root, file.relativePath)
+      const commit = revisions.find((r) => r.repository === target.name)?.commit
+      const revision = commit ? { root: target.root, commit } : undefined
+      if (!filePath.startsWith(`${root}${path.sep}`) || !(await hasSourceFile(filePath, revision))) {
+        return NextResponse.json({ error: `File not found in ${target.name}: ${file.relativePath}` }, { status: 400 })
+      }
+      const lineCount = lineRange ? await countFileLines(filePath, revision) : 0
+      if (lineRange && lineRange.start > lineCount) {
+        return NextResponse.json(
+          {
+            error: `lineRange starts at line ${lineRange.start}, past the end of ${file.relativePath} (${lineCount} lines)`,
+          },
+          { status: 400 },
+        )
+      }
+      picked = { repository: target, filePath, typeName: typeof file.typeName === "string" ? file.typeName : undefined }
+    }
+
+    // Parse the same way as the full analysis, so exception ids and frame keys line up
+    const exceptions = flattenExceptions(parseExceptionChain(stackTrace, getFrameRules(repositories[0])))
+    const exception = exceptions.find((e) => e.id === exceptionId)
+    const frames = exception ? deduplicateEntries(exception.frames) : []
+    const frameIndex = frames.findIndex((entry) => getEntryKey(entry) === frameKey)
+    if (!exception || frameIndex === -1) {
+      return NextResponse.json({ error: `Frame ${frameKey} not found in the stack trace` }, { status: 404 })
+    }
+
+    const context = new AnalysisContext<AnalysisResult>({
+      repositories,
+      routes: config.routes,
+      pathMappings: config.pathMappings,
+      dateRange,
+      contextLines: contextLines ?? config.blameContextLines,
+      revisions,
+      methodHistory,
+      totalSteps: STEPS_PER_ENTRY,
+      signal: request.signal,
+    })
+
+    console.log(
+      `[${context.runId}] Re-analyzing ${frameKey}${picked ? ` against ${picked.filePath}` : ""}${lineRange ? ` at lines ${lineRange.start}-${lineRange.end}` : ""}`,
+    )
+
+    await analyzeEntry(context, frames[frameIndex], {
+      exceptionId,
+      exceptionType: frameIndex === 0 ? exception.type || undefined : undefined,
+      file: picked,
+      lineRange,
+    })
+
+    return NextResponse.json({ result: context.getResults()[0] })
+  } catch (error) {
+    if (
+      error instanceof StackTraceAnalyzerError &&
+      (error.code === ErrorCodes.PROJECT_ROOT_ERROR ||
+        error.code === ErrorCodes.REVISION_NOT_FOUND ||
+        error.code === ErrorCodes.INVALID_DATE)
+    ) {
+      return NextResponse.json({ error: handleError(error), code: error.code }, { status: 400 })
+    }
+
+    console.error(`API Error: ${error instanceof Error ? error.message : String(error)}`)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 },
+    )
+  }
+}
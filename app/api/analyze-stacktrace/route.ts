@@ -1,263 +1,198 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { parseStackTrace, deduplicateEntries } from "@/lib/stack-trace-parser"
-import { findSourceFile, findMethodLineRange } from "@/lib/file-finder"
-import { analyzeBlameResults, type GitBlameAnalysis } from "@/lib/git-blame-refined"
-
-interface AnalysisResult {
-  namespace: string
-  methodName: string
-  filePath: string
-  fileFound: boolean
-  lineRange: { start: number; end: number } | null
-  methodFound: boolean
-  gitBlameResults: GitBlameAnalysis[]
-  error?: string
-}
-
-interface ProgressStep {
-  stepNumber: number
-  totalSteps: number
-  title: string
-  description: string
-  status: "running" | "complete" | "error"
-  percentage: number
-  timestamp: string
-}
-
-const PROJECT_ROOT = "C:\\git\\GitHub\\WiseTechGlobal\\CargoWise"
-
-const progressSteps: ProgressStep[] = []
-
-function logProgress(
-  stepNumber: number,
-  totalSteps: number,
-  title: string,
-  description: string,
-  status: "running" | "complete" | "error" = "running",
-) {
-  const step: ProgressStep = {
-    stepNumber,
-    totalSteps,
-    title,
-    description,
-    status,
-    percentage: Math.round((stepNumber / totalSteps) * 100),
-    timestamp: new Date().toISOString(),
-  }
-
-  progressSteps.push(step)
-
-  const percentage = Math.round((stepNumber / totalSteps) * 100)
-  console.log(`[${stepNumber}/${totalSteps}] ${percentage}% - ${title}: ${description} [${status.toUpperCase()}]`)
-}
-
+import { parseExceptionChain, flattenExceptions, deduplicateEntries } from "@/lib/stack-trace-parser"
+import { AnalysisContext } from "@/lib/analysis-context"
+import { analyzeEntry, buildSummary, STEPS_PER_ENTRY, type AnalysisResult } from "@/lib/frame-analyzer"
+import { ANALYSIS_STREAM_CONTENT_TYPE, encodeAnalysisEvent, type AnalysisStreamEvent } from "@/lib/analysis-stream"
+import { loadConfig, getSearchOrder, getFrameRules, validateProjectRoot } from "@/lib/config"
+import { StackTraceAnalyzerError, ErrorCodes, handleError } from "@/lib/error-handler"
+import { isValidRevision, resolveRepositoryRevisions } from "@/lib/git-revision"
+import { isValidVersion, resolveRepositoryVersions } from "@/lib/version-resolver"
+import { validateDateRange, resolveDateRange } from "@/lib/date-range"
+
+/**
+ * Analyze stack trace entries and stream progress steps and per-frame results as NDJSON
+ * An optional revision (commit SHA, tag or branch) or product version analyzes the repositories as of that commit
+ * methodHistory adds every commit that touched each located method (git log -L) to the blame results
+ * Changes count as recent from startDate or startTag up to endDate or endTag, or up to today when neither is given
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { stackTrace, startDate } = await request.json()
+    const {
+      stackTrace,
+      startDate,
+      endDate,
+      startTag,
+      endTag,
+      repository: repositoryName,
+      contextLines,
+      revision,
+      version,
+      methodHistory,
+    } = await request.json()
+
+    if (!stackTrace) {
+      return NextResponse.json({ error: "Missing stackTrace" }, { status: 400 })
+    }
+
+    // Each end of the window is a date or a tag; tags are resolved once the repositories are known
+    const dateRangeError = validateDateRange({ startDate, endDate, startTag, endTag })
+    if (dateRangeError) {
+      return NextResponse.json({ error: dateRangeError }, { status: 400 })
+    }
 
-    if (!stackTrace || !startDate) {
-      return NextResponse.json({ error: "Missing stackTrace or startDate" }, { status: 400 })
+    if (contextLines !== undefined && (!Number.isInteger(contextLines) || contextLines < 0)) {
+      return NextResponse.json({ error: "contextLines must be a non-negative integer" }, { status: 400 })
     }
 
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
-      return NextResponse.json({ error: "Invalid date format. Use YYYY-MM-DD" }, { status: 400 })
+    if (revision !== undefined && (typeof revision !== "string" || !isValidRevision(revision))) {
+      return NextResponse.json({ error: "Invalid revision. Use a commit SHA, tag or branch name" }, { status: 400 })
     }
 
-    progressSteps.length = 0
-    let stepCounter = 0
+    if (version !== undefined && (typeof version !== "string" || !isValidVersion(version))) {
+      return NextResponse.json({ error: "Invalid version. Use e.g. 25.3.1042 or 25.3.1042+a1b2c3d" }, { status: 400 })
+    }
 
-    // Step 1: Parse stack trace
-    stepCounter++
-    logProgress(stepCounter, 1, "Parse Stack Trace", "Extracting stack trace entries", "running")
+    if (revision !== undefined && version !== undefined) {
+      return NextResponse.json({ error: "Pass either a revision or a version, not both" }, { status: 400 })
+    }
 
-    let entries = parseStackTrace(stackTrace)
-    entries = deduplicateEntries(entries)
+    if (methodHistory !== undefined && typeof methodHistory !== "boolean") {
+      return NextResponse.json({ error: "methodHistory must be true or false" }, { status: 400 })
+    }
+
+    // The selected repository is searched first, then the other configured repositories
+    const config = loadConfig()
+    const repositories = getSearchOrder(config, repositoryName)
+    for (const repository of repositories) {
+      await validateProjectRoot(repository.root)
+    }
+    const dateRange = await resolveDateRange({ startDate, endDate, startTag, endTag }, repositories)
+    const revisions = revision
+      ? await resolveRepositoryRevisions(revision, repositories)
+      : version
+        ? await resolveRepositoryVersions(version, repositories)
+        : undefined
+
+    // Frames are filtered with the selected repository's rules, and de-duplicated within each exception
+    const exceptionChain = parseExceptionChain(stackTrace, getFrameRules(repositories[0]))
+    const exceptions = flattenExceptions(exceptionChain)
+    const work = exceptions.flatMap((exception) =>
+      deduplicateEntries(exception.frames).map((entry, index) => ({
+        entry,
+        exceptionId: exception.id,
+        // The first custom frame is where the exception was thrown, or where framework code that threw was called
+        exceptionType: index === 0 ? exception.type || undefined : undefined,
+      })),
+    )
+    const rootCause = exceptions.find((e) => e.isRootCause && e !== exceptionChain)
+    const totalEntries = work.length
+    const filteredEntries = exceptions.reduce((count, e) => count + e.filteredFrames.length, 0)
 
-    if (entries.length === 0) {
+    if (totalEntries === 0) {
       return NextResponse.json(
         {
-          error: "No valid custom code entries found in stack trace (filtered out System.* entries)",
+          error: `No valid custom code entries found in stack trace (${filteredEntries} frames excluded by frame rules)`,
         },
         { status: 400 },
       )
     }
 
-    logProgress(stepCounter, entries.length + 1, "Parse Stack Trace", `Found ${entries.length} entries`, "complete")
+    const encoder = new TextEncoder()
+    let closed = false
 
-    // Calculate total steps: 1 parse + 3 per entry
-    const totalSteps = 1 + entries.length * 3
-
-    console.log(`Analysis started with ${entries.length} stack trace entries (${totalSteps} total steps)`)
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: AnalysisStreamEvent<AnalysisResult>) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(encodeAnalysisEvent(event)))
+          }
+        }
 
-    const results: AnalysisResult[] = []
+        // Calculate total steps: 1 parse + 3 per entry
+        const context = new AnalysisContext<AnalysisResult>({
+          repositories,
+          routes: config.routes,
+          pathMappings: config.pathMappings,
+          dateRange,
+          contextLines: contextLines ?? config.blameContextLines,
+          revisions,
+          methodHistory,
+          totalSteps: 1 + totalEntries * STEPS_PER_ENTRY,
+          signal: request.signal,
+          onResult: (result, index) => send({ type: "result", index, result }),
+        })
 
-    // Process each entry
-    for (let i = 0; i < entries.length; i++) {
-      const entry = entries[i]
-      const baseStep = 1 + i * 3
+        // Steps are mutated in place by the tracker, so send a snapshot of each update
+        context.onProgress((step) => send({ type: "progress", step: { ...step } }))
 
-      try {
-        // Step: Find source file
-        stepCounter = baseStep + 1
-        const fileName = entry.namespace.split(".").pop()
-        logProgress(
-          stepCounter,
-          totalSteps,
-          "Find Source File",
-          `Locating ${fileName}.cs for ${entry.namespace}`,
-          "running",
+        console.log(
+          `[${context.runId}] Analysis started in ${repositories.map((r) => r.name).join(", ")}${revision || version ? ` at ${revision || version}` : ""} with ${totalEntries} stack trace entries`,
         )
 
-        const filePath = await findSourceFile(entry.namespace, PROJECT_ROOT)
-
-        if (!filePath) {
-          logProgress(
-            stepCounter,
-            totalSteps,
-            "Find Source File",
-            `Source file not found for ${entry.namespace}. Manual review needed.`,
-            "error",
-          )
-
-          results.push({
-            namespace: entry.namespace,
-            methodName: entry.methodName,
-            filePath: "",
-            fileFound: false,
-            lineRange: null,
-            methodFound: false,
-            gitBlameResults: [],
-            error: "Source file not found. Please manually verify in codebase.",
+        if (exceptionChain.type) {
+          send({
+            type: "exception",
+            exception: {
+              type: exceptionChain.type,
+              message: exceptionChain.message,
+              rootCause: rootCause && { type: rootCause.type, message: rootCause.message },
+            },
           })
-          continue
         }
 
-        logProgress(stepCounter, totalSteps, "Find Source File", `Found: ${filePath}`, "complete")
-
-        // Step: Find method location
-        stepCounter = baseStep + 2
-        logProgress(
-          stepCounter,
-          totalSteps,
-          "Find Method Location",
-          `Searching for method ${entry.methodName}`,
-          "running",
-        )
-
-        const lineRange = await findMethodLineRange(filePath, entry.methodName)
-
-        if (!lineRange) {
-          logProgress(
-            stepCounter,
-            totalSteps,
-            "Find Method Location",
-            `Method ${entry.methodName} not found. May be interface/base class. Manual review needed.`,
-            "error",
+        try {
+          const parseStep = context.tracker.startStep("Parse Stack Trace", "Extracting stack trace entries")
+          context.tracker.completeStep(
+            parseStep,
+            `Found ${totalEntries} entries in ${exceptions.length} exception${exceptions.length === 1 ? "" : "s"}, ${filteredEntries} frames filtered`,
           )
 
-          results.push({
-            namespace: entry.namespace,
-            methodName: entry.methodName,
-            filePath,
-            fileFound: true,
-            lineRange: null,
-            methodFound: false,
-            gitBlameResults: [],
-            error: "Method not found in file. May be defined in interface or base class.",
-          })
-          continue
+          for (const { entry, exceptionId, exceptionType } of work) {
+            if (context.cancelled) {
+              console.log(`[${context.runId}] Client disconnected, stopping analysis`)
+              break
+            }
+            await analyzeEntry(context, entry, { exceptionId, exceptionType })
+          }
+
+          const summary = buildSummary(context)
+
+          console.log(`[${context.runId}] ANALYSIS COMPLETE`)
+          console.log(`[${context.runId}] Total entries analyzed: ${summary.totalEntries}`)
+          console.log(`[${context.runId}] Files found: ${summary.filesFound}/${summary.totalEntries}`)
+          console.log(`[${context.runId}] Methods found: ${summary.methodsFound}/${summary.totalEntries}`)
+          console.log(`[${context.runId}] Methods with changes in date range: ${summary.withChanges}`)
+
+          send({ type: "complete", summary })
+        } catch (error) {
+          console.error(`[${context.runId}] Analysis Error: ${error instanceof Error ? error.message : String(error)}`)
+          send({ type: "error", error: error instanceof Error ? error.message : "Internal server error" })
+        } finally {
+          closed = true
+          controller.close()
         }
+      },
+      cancel() {
+        closed = true
+      },
+    })
 
-        logProgress(
-          stepCounter,
-          totalSteps,
-          "Find Method Location",
-          `Found at lines ${lineRange.start}-${lineRange.end}`,
-          "complete",
-        )
-
-        // Step: Query git blame
-        stepCounter = baseStep + 3
-        logProgress(
-          stepCounter,
-          totalSteps,
-          "Query Git History",
-          `Analyzing git blame for lines ${lineRange.start}-${lineRange.end}`,
-          "running",
-        )
-
-        const gitBlameResults = await analyzeBlameResults(
-          filePath,
-          lineRange.start,
-          lineRange.end,
-          startDate,
-          PROJECT_ROOT,
-        )
-
-        const changesInRange = gitBlameResults.filter((g) => g.inDateRange).length
-
-        logProgress(
-          stepCounter,
-          totalSteps,
-          "Query Git History",
-          `Found ${gitBlameResults.length} commits (${changesInRange} in date range)`,
-          "complete",
-        )
-
-        results.push({
-          namespace: entry.namespace,
-          methodName: entry.methodName,
-          filePath,
-          fileFound: true,
-          lineRange,
-          methodFound: true,
-          gitBlameResults,
-        })
-      } catch (error) {
-        stepCounter = baseStep + 3
-        const errorMsg = error instanceof Error ? error.message : String(error)
-        console.error(`Error processing ${entry.namespace}.${entry.methodName}: ${errorMsg}`)
-
-        logProgress(stepCounter, totalSteps, "Error", `${entry.namespace}.${entry.methodName}: ${errorMsg}`, "error")
-
-        results.push({
-          namespace: entry.namespace,
-          methodName: entry.methodName,
-          filePath: "",
-          fileFound: false,
-          lineRange: null,
-          methodFound: false,
-          gitBlameResults: [],
-          error: errorMsg,
-        })
-      }
-    }
-
-    console.log(`ANALYSIS COMPLETE`)
-    const filesFound = results.filter((r) => r.fileFound).length
-    const methodsFound = results.filter((r) => r.methodFound).length
-    const withChanges = results.filter((r) => r.gitBlameResults.some((g) => g.inDateRange)).length
-
-    console.log(`Total entries analyzed: ${results.length}`)
-    console.log(`Files found: ${filesFound}/${results.length}`)
-    console.log(`Methods found: ${methodsFound}/${results.length}`)
-    console.log(`Methods with changes in date range: ${withChanges}`)
-
-    return NextResponse.json({
-      results,
-      summary: {
-        totalEntries: results.length,
-        filesFound,
-        methodsFound,
-        withChanges,
-        dateRange: {
-          startDate,
-          endDate: new Date().toISOString().split("T")[0],
-        },
+    return new Response(stream, {
+      headers: {
+        "Content-Type": ANALYSIS_STREAM_CONTENT_TYPE,
+        "Cache-Control": "no-cache, no-transform",
       },
-      progress: progressSteps,
     })
   } catch (error) {
+    if (
+      error instanceof StackTraceAnalyzerError &&
+      (error.code === ErrorCodes.PROJECT_ROOT_ERROR ||
+        error.code === ErrorCodes.REVISION_NOT_FOUND ||
+        error.code === ErrorCodes.INVALID_DATE)
+    ) {
+      return NextResponse.json({ error: handleError(error), code: error.code }, { status: 400 })
+    }
+
     console.error(`API Error: ${error instanceof Error ? error.message : String(error)}`)
     return NextResponse.json(
       {
@@ -0,0 +1,82 @@
+import { type NextRequest, NextResponse } from "next/server"
+import * as path from "path"
+import { loadConfig, validateProjectRoot } from "@/lib/config"
+import { StackTraceAnalyzerError, ErrorCodes, handleError } from "@/lib/error-handler"
+import { isValidRevision, toRepositoryPath } from "@/lib/git-revision"
+import { getCommitDiff } from "@/lib/git-commit-diff"
+
+/**
+ * Return the diff one commit made to an analyzed file, with the method's lines marked
+ * Query: repository, commit, path (relative to the repository root), optional start and end of the method's lines,
+ * and at, the commit the file was analyzed at (HEAD when the working tree was analyzed)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const repositoryName = params.get("repository")
+    const commit = params.get("commit")
+    const relativePath = params.get("path")
+    const start = params.get("start")
+    const end = params.get("end")
+    const at = params.get("at") ?? undefined
+
+    if (!repositoryName || !commit || !relativePath) {
+      return NextResponse.json({ error: "Missing repository, commit or path" }, { status: 400 })
+    }
+
+    if (!isValidRevision(commit) || (at !== undefined && !isValidRevision(at))) {
+      return NextResponse.json({ error: "Invalid commit. Use a commit SHA, tag or branch name" }, { status: 400 })
+    }
+
+    const lineStart = start === null ? undefined : Number(start)
+    const lineEnd = end === null ? undefined : Number(end)
+    if (
+      (lineStart === undefined) !== (lineEnd === undefined) ||
+      (lineStart !== undefined &&
+        (!Number.isInteger(lineStart) || !Number.isInteger(lineEnd) || lineStart < 1 || lineEnd! < lineStart))
+    ) {
+      return NextResponse.json(
+        { error: "start and end must be whole lines, with start >= 1 and end >= start" },
+        { status: 400 },
+      )
+    }
+
+    const repository = loadConfig().repositories.find((r) => r.name === repositoryName)
+    if (!repository) {
+      return NextResponse.json({ error: `Unknown repository "${repositoryName}"` }, { status: 400 })
+    }
+    await validateProjectRoot(repository.root)
+
+    // The path must stay inside the repository; it is not checked on disk since the file may only exist in history
+    const root = path.resolve(repository.root)
+    const filePath = path.resolve(root, relativePath)
+    if (!filePath.startsWith(`${root}${path.sep}`)) {
+      return NextResponse.json({ error: `Invalid path: ${relativePath}` }, { status: 400 })
+    }
+
+    const diff = await getCommitDiff(
+      repository.root,
+      commit,
+      toRepositoryPath(root, filePath),
+      lineStart !== undefined && lineEnd !== undefined ? { start: lineStart, end: lineEnd } : undefined,
+      at,
+    )
+
+    return NextResponse.json({ diff })
+  } catch (error) {
+    if (
+      error instanceof StackTraceAnalyzerError &&
+      (error.code === ErrorCodes.PROJECT_ROOT_ERROR || error.code === ErrorCodes.REVISION_NOT_FOUND)
+    ) {
+      return NextResponse.json({ error: handleError(error), code: error.code }, { status: 400 })
+    }
+
+    console.error(`API Error: ${error instanceof Error ? error.message : String(error)}`)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 },
+    )
+  }
+}
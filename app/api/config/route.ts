@@ -0,0 +1,145 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  loadConfig,
+  saveConfig,
+  validateProjectRoot,
+  validateVersionTag,
+  getConfigPath,
+  type RepositoryConfig,
+  type RoutingRule,
+} from "@/lib/config"
+import { validateFrameRule, type FrameRule } from "@/lib/frame-filter"
+import { StackTraceAnalyzerError, ErrorCodes, handleError } from "@/lib/error-handler"
+
+/**
+ * Return configured repositories, with the validation status of each root, and routing rules
+ */
+export async function GET() {
+  try {
+    const config = loadConfig()
+
+    const repositories = await Promise.all(
+      config.repositories.map(async (repository) => {
+        try {
+          await validateProjectRoot(repository.root)
+          return { ...repository, valid: true }
+        } catch (error) {
+          return { ...repository, valid: false, error: handleError(error) }
+        }
+      }),
+    )
+
+    return NextResponse.json({
+      configPath: getConfigPath(),
+      defaultRepository: config.defaultRepository,
+      repositories,
+      routes: config.routes,
+    })
+  } catch (error) {
+    const code = error instanceof StackTraceAnalyzerError ? error.code : ErrorCodes.UNKNOWN
+    return NextResponse.json({ error: handleError(error), code }, { status: 500 })
+  }
+}
+
+/**
+ * Replace the repositories, their frame rules and the routing rules stored in the config file
+ * Every root must exist and be a git work tree, and every routing rule must name a configured repository
+ * Settings of the STACKTRACE_ANALYZER_PROJECT_ROOT repository are saved by its root
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { repositories, defaultRepository, routes = [] } = await request.json()
+
+    if (!Array.isArray(repositories)) {
+      return NextResponse.json({ error: "Missing repositories" }, { status: 400 })
+    }
+
+    const names = new Set<string>()
+    const savedRepositories: RepositoryConfig[] = []
+
+    for (const repository of repositories) {
+      const name = typeof repository?.name === "string" ? repository.name.trim() : ""
+      const root = typeof repository?.root === "string" ? repository.root.trim() : ""
+
+      if (!name || !root) {
+        return NextResponse.json({ error: "Each repository needs a name and a root" }, { status: 400 })
+      }
+      if (names.has(name)) {
+        return NextResponse.json({ error: `Duplicate repository name "${name}"` }, { status: 400 })
+      }
+      names.add(name)
+
+      let frameRules: FrameRule[] | undefined
+      if (Array.isArray(repository.frameRules)) {
+        for (const rule of repository.frameRules) {
+          const ruleError = validateFrameRule(rule)
+          if (ruleError) {
+            return NextResponse.json({ error: `${name}: ${ruleError}` }, { status: 400 })
+          }
+        }
+        frameRules = repository.frameRules.map((rule: FrameRule) => ({
+          kind: rule.kind,
+          pattern: rule.pattern.trim(),
+          action: rule.action,
+        }))
+      }
+
+      // Version settings are edited in the config file and passed through unchanged
+      let versionTags: string[] | undefined
+      if (Array.isArray(repository.versionTags)) {
+        for (const tag of repository.versionTags) {
+          const tagError = validateVersionTag(tag)
+          if (tagError) {
+            return NextResponse.json({ error: `${name}: ${tagError}` }, { status: 400 })
+          }
+        }
+        versionTags = repository.versionTags
+      }
+      const versionMapFile = typeof repository.versionMapFile === "string" ? repository.versionMapFile : undefined
+
+      // The root of an environment repository is fixed by STACKTRACE_ANALYZER_PROJECT_ROOT; only its settings are saved
+      if (repository.source === "env") {
+        const envRoot = process.env.STACKTRACE_ANALYZER_PROJECT_ROOT
+        if (envRoot) {
+          savedRepositories.push({ name, root: envRoot, source: "env", frameRules, versionTags, versionMapFile })
+        }
+        continue
+      }
+
+      await validateProjectRoot(root)
+      savedRepositories.push({ name, root, source: "file", frameRules, versionTags, versionMapFile })
+    }
+
+    if (!Array.isArray(routes)) {
+      return NextResponse.json({ error: "Invalid routes" }, { status: 400 })
+    }
+
+    const routingRules: RoutingRule[] = []
+    for (const rule of routes) {
+      const namespace = typeof rule?.namespace === "string" ? rule.namespace.trim() : ""
+      if (!namespace || !names.has(rule.repository)) {
+        return NextResponse.json(
+          { error: `Routing rule "${namespace}" must have a namespace and a configured repository` },
+          { status: 400 },
+        )
+      }
+      routingRules.push({ namespace, repository: rule.repository })
+    }
+
+    const validDefault = typeof defaultRepository === "string" && names.has(defaultRepository)
+    saveConfig({
+      repositories: savedRepositories,
+      defaultRepository: validDefault ? defaultRepository : undefined,
+      routes: routingRules,
+    })
+
+    return GET()
+  } catch (error) {
+    if (error instanceof StackTraceAnalyzerError && error.code === ErrorCodes.PROJECT_ROOT_ERROR) {
+      return NextResponse.json({ error: handleError(error), code: error.code }, { status: 400 })
+    }
+
+    console.error(`Config API Error: ${error instanceof Error ? error.message : String(error)}`)
+    return NextResponse.json({ error: handleError(error), code: ErrorCodes.UNKNOWN }, { status: 500 })
+  }
+}
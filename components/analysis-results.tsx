@@ -3,8 +3,13 @@
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { ExternalLink, FileText, AlertCircle, CheckCircle, ChevronDown } from 'lucide-react'
+import { ExternalLink, FileText, AlertCircle, CheckCircle, ChevronDown, GitCommit, FileDiff, CalendarRange } from 'lucide-react'
 import { useState } from "react"
+import { getEntryKey } from "@/lib/stack-trace-parser"
+import { FrameCandidates, type FrameOverride } from "./frame-candidates"
+import { MethodHistory } from "./method-history"
+import { SourceBlame } from "./source-blame"
+import { CommitDiff } from "./commit-diff"
 
 interface GitBlameAnalysis {
   commitHash: string
@@ -18,18 +23,73 @@ interface GitBlameAnalysis {
 }
 
 interface AnalysisResult {
+  exceptionId: string
   namespace: string
   methodName: string
+  compilerGenerated?: "state-machine" | "lambda" | "local-function"
+  localFunction?: string
+  nestedType?: string
+  memberKind?: "constructor" | "static-constructor" | "getter" | "setter" | "operator"
+  explicitInterface?: string
+  repository?: string
+  // Commit the file was read and blamed at, when the analysis ran against a revision
+  commit?: string
   filePath: string
+  relativePath?: string
+  partialFiles?: string[]
+  inheritanceChain?: string[]
   fileFound: boolean
   lineRange: { start: number; end: number } | null
   methodFound: boolean
+  manualLineRange?: boolean
+  overloadCount?: number
+  overloadConfidence?: number
+  crashLine?: number
+  blameRange?: { start: number; end: number }
+  hints?: Array<{ line: number; expression: string; message: string }>
+  candidates?: Array<{
+    kind: "declaration" | "file-name" | "similar"
+    repository: string
+    relativePath: string
+    typeName?: string
+    line?: number
+    score: number
+  }>
   gitBlameResults: GitBlameAnalysis[]
+  sourceLines?: Array<{
+    lineNumber: number
+    commitHash: string
+    author: string
+    date: string
+    commitMessage: string
+    content: string
+    inDateRange: boolean
+  }>
+  methodHistory?: Array<{
+    commitHash: string
+    author: string
+    commitDate: string
+    commitMessage: string
+    prNumber?: string
+    prUrl?: string
+    prSource?: "github" | "azure"
+    diff: string
+  }>
   error?: string
 }
 
+interface ExceptionHeader {
+  type: string
+  message: string
+  rootCause?: { type: string; message: string }
+}
+
 interface Props {
   results: AnalysisResult[]
+  exception?: ExceptionHeader | null
+  // Re-run one frame against a picked file or line range; key of the frame being re-run
+  onOverride?: (result: AnalysisResult, override: FrameOverride) => void
+  reanalyzing?: string | null
   summary?: {
     totalEntries: number
     filesFound: number
@@ -38,10 +98,25 @@ interface Props {
     dateRange: {
       startDate: string
       endDate: string
+      startTag?: string
+      endTag?: string
     }
+    revisions?: Array<{
+      repository: string
+      commit: string
+      requested: string
+      resolvedBy?: "build-metadata" | "version-map" | "tag"
+      ref?: string
+    }>
   }
 }
 
+const RESOLVED_BY_LABELS = {
+  "build-metadata": "build metadata",
+  "version-map": "version map",
+  tag: "tag",
+}
+
 /**
  * Extract Azure DevOps PR URL from commit message if pattern found
  */
@@ -53,8 +128,9 @@ function extractAzureDevOpsPRUrl(commitMessage: string): string | undefined {
   return undefined
 }
 
-export function AnalysisResults({ results, summary }: Props) {
+export function AnalysisResults({ results, exception, summary, onOverride, reanalyzing }: Props) {
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set())
+  const [openDiffs, setOpenDiffs] = useState<Set<string>>(new Set())
 
   const toggleExpanded = (key: string) => {
     const newSet = new Set(expandedItems)
@@ -66,8 +142,42 @@ export function AnalysisResults({ results, summary }: Props) {
     setExpandedItems(newSet)
   }
 
+  const toggleDiff = (key: string) => {
+    const newSet = new Set(openDiffs)
+    if (newSet.has(key)) {
+      newSet.delete(key)
+    } else {
+      newSet.add(key)
+    }
+    setOpenDiffs(newSet)
+  }
+
   return (
     <div className="space-y-6">
+      {/* Exception Header */}
+      {exception && (
+        <Card className="border border-destructive/30 bg-destructive/5">
+          <CardContent className="pt-4 space-y-2">
+            <div className="flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
+              <code className="text-sm font-mono font-semibold text-foreground break-all">{exception.type}</code>
+            </div>
+            {exception.message && (
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap break-all">{exception.message}</p>
+            )}
+            {exception.rootCause && (
+              <p className="text-xs text-muted-foreground break-all pt-2 border-t border-border/50">
+                <Badge variant="destructive" className="text-xs mr-2">
+                  Root cause
+                </Badge>
+                <code className="font-mono text-foreground">{exception.rootCause.type}</code>
+                {exception.rootCause.message && `: ${exception.rootCause.message}`}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Summary Stats */}
       {summary && (
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
@@ -98,10 +208,35 @@ export function AnalysisResults({ results, summary }: Props) {
         </div>
       )}
 
+      {summary && (
+        <p className="text-xs text-muted-foreground flex items-center gap-1 break-all">
+          <CalendarRange className="w-3 h-3 flex-shrink-0" />
+          Changes counted from <span className="font-medium text-foreground">{summary.dateRange.startDate}</span>
+          {summary.dateRange.startTag && ` (${summary.dateRange.startTag})`} to{" "}
+          <span className="font-medium text-foreground">{summary.dateRange.endDate}</span>
+          {summary.dateRange.endTag && ` (${summary.dateRange.endTag})`}
+        </p>
+      )}
+
+      {summary?.revisions && (
+        <div className="p-3 rounded-lg border border-border bg-muted/20 text-xs text-muted-foreground space-y-1">
+          {summary.revisions.map((revision) => (
+            <p key={revision.repository} className="flex items-center gap-1 break-all">
+              <GitCommit className="w-3 h-3 flex-shrink-0" />
+              <span className="font-medium text-foreground">{revision.repository}</span> analyzed at{" "}
+              <code className="font-mono text-foreground">{revision.commit.slice(0, 8)}</code>
+              {revision.resolvedBy
+                ? ` (${revision.requested} via ${RESOLVED_BY_LABELS[revision.resolvedBy]} ${revision.ref})`
+                : ` (${revision.requested})`}
+            </p>
+          ))}
+        </div>
+      )}
+
       {/* Results List */}
       <div className="space-y-3">
         {results.map((result) => {
-          const key = `${result.namespace}.${result.methodName}`
+          const key = `${result.exceptionId}:${getEntryKey(result)}`
           const isExpanded = expandedItems.has(key)
           const hasChanges = result.gitBlameResults.some((g) => g.inDateRange)
 
@@ -129,8 +264,18 @@ export function AnalysisResults({ results, summary }: Props) {
                         )}
                       </div>
                       <code className="text-sm font-mono text-foreground font-semibold break-all">
-                        {result.methodName}
+                        {result.localFunction ? `${result.methodName}.${result.localFunction}` : result.methodName}
                       </code>
+                      {result.compilerGenerated && (
+                        <Badge variant="outline" className="text-xs flex-shrink-0 mt-0.5">
+                          {result.compilerGenerated.replace("-", " ")}
+                        </Badge>
+                      )}
+                      {result.memberKind && (
+                        <Badge variant="outline" className="text-xs flex-shrink-0 mt-0.5">
+                          {result.memberKind.replace("-", " ")}
+                        </Badge>
+                      )}
                       {hasChanges && (
                         <Badge 
                           variant="default" 
@@ -140,13 +285,53 @@ export function AnalysisResults({ results, summary }: Props) {
                         </Badge>
                       )}
                     </div>
-                    <p className="text-xs text-muted-foreground break-all mb-1">{result.namespace}</p>
+                    <p className="text-xs text-muted-foreground break-all mb-1">
+                      {result.nestedType ? `${result.namespace}+${result.nestedType}` : result.namespace}
+                      {result.explicitInterface && ` (implements ${result.explicitInterface})`}
+                    </p>
                     {result.fileFound && (
                       <p className="text-xs text-muted-foreground break-all flex items-start gap-1">
                         <FileText className="w-3 h-3 flex-shrink-0 mt-0.5" />
                         <span className="break-all">{result.filePath}</span>
+                        {result.repository && (
+                          <Badge variant="outline" className="text-xs flex-shrink-0 ml-1">
+                            {result.repository}
+                            {result.commit && <span className="font-mono ml-1">@{result.commit.slice(0, 8)}</span>}
+                          </Badge>
+                        )}
+                      </p>
+                    )}
+                    {result.inheritanceChain && (
+                      <p className="text-xs text-muted-foreground mt-1 break-all">
+                        Inherited:{" "}
+                        <span className="font-mono">
+                          {result.inheritanceChain.map((type) => type.split(".").pop()).join(" → ")}.{result.methodName}
+                        </span>
                       </p>
                     )}
+                    {result.partialFiles && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Partial type declared in {result.partialFiles.length} files
+                        {result.methodFound && "; the method was found in the file above"}
+                      </p>
+                    )}
+                    {result.overloadConfidence !== undefined && result.overloadConfidence < 1 && (
+                      <p className="text-xs text-amber-600 mt-1">
+                        Overload match uncertain: 1 of {result.overloadCount} overloads, confidence{" "}
+                        {Math.round(result.overloadConfidence * 100)}%
+                      </p>
+                    )}
+                    {result.crashLine && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Crash at line <span className="text-destructive font-semibold">{result.crashLine}</span>
+                        {result.blameRange && ` (blamed lines ${result.blameRange.start}-${result.blameRange.end})`}
+                      </p>
+                    )}
+                    {result.hints?.map((hint, idx) => (
+                      <p key={idx} className="text-xs text-amber-600 mt-1 break-all">
+                        Line {hint.line}: <code className="font-mono">{hint.expression}</code> - {hint.message}
+                      </p>
+                    ))}
                     {!result.fileFound && result.error && (
                       <p className="text-xs text-destructive mt-1 break-all">Error: {result.error}</p>
                     )}
@@ -154,7 +339,7 @@ export function AnalysisResults({ results, summary }: Props) {
                       <p className="text-xs text-amber-600 mt-1 break-all">Info: {result.error}</p>
                     )}
                   </div>
-                  {result.gitBlameResults.length > 0 && (
+                  {(result.gitBlameResults.length > 0 || result.sourceLines || result.methodHistory) && (
                     <div className={`transition-transform flex-shrink-0 ${isExpanded ? "rotate-180" : ""} mt-0.5`}>
                       <ChevronDown className="w-5 h-5 text-muted-foreground" />
                     </div>
@@ -162,12 +347,34 @@ export function AnalysisResults({ results, summary }: Props) {
                 </div>
               </button>
 
+              {(result.candidates || result.relativePath) && (
+                <div className="border-t border-border px-4 py-3">
+                  <FrameCandidates
+                    candidates={result.candidates}
+                    currentFile={
+                      result.repository && result.relativePath
+                        ? { repository: result.repository, relativePath: result.relativePath }
+                        : undefined
+                    }
+                    onOverride={onOverride && ((override) => onOverride(result, override))}
+                    busy={reanalyzing === key}
+                  />
+                </div>
+              )}
+
+              {isExpanded && result.sourceLines && (
+                <div className="border-t border-border px-4 py-3">
+                  <SourceBlame lines={result.sourceLines} crashLine={result.crashLine} />
+                </div>
+              )}
+
               {isExpanded && result.gitBlameResults.length > 0 && (
                 <div className="border-t border-border bg-muted/30 px-4 py-4 space-y-2">
                   {result.gitBlameResults.map((blame, idx) => {
                     const azureUrl = extractAzureDevOpsPRUrl(blame.commitMessage)
                     const prUrl = blame.prUrl || azureUrl
                     const prSource = blame.prSource || (azureUrl ? "azure" : undefined)
+                    const diffKey = `${key}:${blame.commitHash}`
 
                     return (
                       <div
@@ -216,7 +423,29 @@ export function AnalysisResults({ results, summary }: Props) {
                               </a>
                             </Button>
                           )}
+                          {result.repository && result.relativePath && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-xs h-7 bg-transparent"
+                              onClick={() => toggleDiff(diffKey)}
+                            >
+                              <FileDiff className="w-3 h-3 mr-1" />
+                              {openDiffs.has(diffKey) ? "Hide diff" : "Show diff"}
+                            </Button>
+                          )}
                         </div>
+                        {result.repository && result.relativePath && openDiffs.has(diffKey) && (
+                          <div className="mt-3">
+                            <CommitDiff
+                              repository={result.repository}
+                              commit={blame.commitHash}
+                              relativePath={result.relativePath}
+                              lineRange={result.lineRange ?? result.blameRange}
+                              at={result.commit}
+                            />
+                          </div>
+                        )}
                       </div>
                     )
                   })}
@@ -227,6 +456,12 @@ export function AnalysisResults({ results, summary }: Props) {
                   )}
                 </div>
               )}
+
+              {isExpanded && result.methodHistory && (
+                <div className="border-t border-border px-4 py-3">
+                  <MethodHistory commits={result.methodHistory} />
+                </div>
+              )}
             </Card>
           )
         })}
@@ -0,0 +1,203 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Spinner } from "@/components/ui/spinner"
+import { Columns2, Rows2 } from "lucide-react"
+
+interface DiffLine {
+  kind: "context" | "add" | "delete"
+  content: string
+  oldLine?: number
+  newLine?: number
+  inMethod: boolean
+}
+
+interface DiffHunk {
+  header: string
+  lines: DiffLine[]
+  touchesMethod: boolean
+}
+
+interface CommitDiffData {
+  commitHash: string
+  path: string
+  methodRange?: { old: { start: number; end: number } | null; new: { start: number; end: number } }
+  hunks: DiffHunk[]
+}
+
+interface Props {
+  repository: string
+  commit: string
+  relativePath: string
+  // Method's lines in the analyzed file
+  lineRange?: { start: number; end: number }
+  // Commit the file was analyzed at; the working tree when unset
+  at?: string
+}
+
+type Row = [DiffLine | null, DiffLine | null]
+
+function lineClass(line: DiffLine | null): string {
+  if (!line) return "bg-muted/30"
+  const method = line.inMethod ? "border-l-2 border-chart-1" : "border-l-2 border-transparent"
+  if (line.kind === "add") return `${method} bg-chart-1/15 text-foreground`
+  if (line.kind === "delete") return `${method} bg-destructive/15 text-foreground`
+  return `${method} ${line.inMethod ? "bg-chart-1/5 text-foreground" : "text-foreground/60"}`
+}
+
+/**
+ * Pair a hunk's lines for the side-by-side view: context on both sides, each run of deletions beside the additions
+ * that follow it
+ */
+function toRows(lines: DiffLine[]): Row[] {
+  const rows: Row[] = []
+  let deleted: DiffLine[] = []
+  let added: DiffLine[] = []
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, added.length); i++) {
+      rows.push([deleted[i] ?? null, added[i] ?? null])
+    }
+    deleted = []
+    added = []
+  }
+
+  for (const line of lines) {
+    if (line.kind === "context") {
+      flush()
+      rows.push([line, line])
+    } else if (line.kind === "delete") {
+      if (added.length > 0) flush()
+      deleted.push(line)
+    } else {
+      added.push(line)
+    }
+  }
+  flush()
+  return rows
+}
+
+function LineNumber({ line }: { line?: number }) {
+  return <span className="inline-block w-10 pr-2 text-right text-muted-foreground select-none">{line ?? ""}</span>
+}
+
+function Marker({ kind }: { kind?: DiffLine["kind"] }) {
+  return (
+    <span className="inline-block w-3 text-muted-foreground select-none">
+      {kind === "add" ? "+" : kind === "delete" ? "-" : " "}
+    </span>
+  )
+}
+
+/**
+ * Diff a commit made to an analyzed file, with the method's lines highlighted and the hunks that change it marked
+ */
+export function CommitDiff({ repository, commit, relativePath, lineRange, at }: Props) {
+  const [diff, setDiff] = useState<CommitDiffData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [sideBySide, setSideBySide] = useState(false)
+
+  useEffect(() => {
+    const params = new URLSearchParams({ repository, commit, path: relativePath })
+    if (lineRange) {
+      params.set("start", String(lineRange.start))
+      params.set("end", String(lineRange.end))
+    }
+    if (at) {
+      params.set("at", at)
+    }
+
+    const controller = new AbortController()
+    fetch(`/api/commit-diff?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load the diff")
+        }
+        setDiff(data.diff)
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : "Failed to load the diff")
+        }
+      })
+    return () => controller.abort()
+  }, [repository, commit, relativePath, lineRange?.start, lineRange?.end, at])
+
+  if (error) {
+    return <p className="text-xs text-destructive">{error}</p>
+  }
+  if (!diff) {
+    return (
+      <p className="text-xs text-muted-foreground flex items-center gap-1">
+        <Spinner className="w-3 h-3" />
+        Loading diff...
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 flex-wrap text-xs">
+        <span className="text-muted-foreground break-all">
+          <code className="font-mono">{diff.path}</code>
+          {diff.methodRange
+            ? ` - method at lines ${diff.methodRange.new.start}-${diff.methodRange.new.end} in this commit`
+            : lineRange && " - this commit did not change the method"}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-xs h-6 bg-transparent"
+          onClick={() => setSideBySide(!sideBySide)}
+        >
+          {sideBySide ? <Rows2 className="w-3 h-3 mr-1" /> : <Columns2 className="w-3 h-3 mr-1" />}
+          {sideBySide ? "Unified" : "Side by side"}
+        </Button>
+      </div>
+      {diff.hunks.length === 0 && <p className="text-xs text-muted-foreground">The commit did not change the file.</p>}
+      {diff.hunks.map((hunk, h) => (
+        <div
+          key={h}
+          className={`rounded border overflow-x-auto font-mono text-[11px] leading-4 bg-background ${
+            hunk.touchesMethod ? "border-chart-1/60" : "border-border/50"
+          }`}
+        >
+          <div className="flex items-center justify-between gap-2 px-2 py-1 bg-muted/40 text-muted-foreground">
+            <span>{hunk.header}</span>
+            {hunk.touchesMethod && (
+              <Badge variant="outline" className="text-[10px] h-4 border-chart-1/50 text-chart-1">
+                Changes method
+              </Badge>
+            )}
+          </div>
+          {sideBySide
+            ? toRows(hunk.lines).map(([left, right], i) => (
+                <div key={i} className="grid grid-cols-2 whitespace-pre">
+                  <div className={lineClass(left)}>
+                    <LineNumber line={left?.oldLine} />
+                    <Marker kind={left?.kind} />
+                    {left?.content}
+                  </div>
+                  <div className={`${lineClass(right)} border-l border-border/50`}>
+                    <LineNumber line={right?.newLine} />
+                    <Marker kind={right?.kind} />
+                    {right?.content}
+                  </div>
+                </div>
+              ))
+            : hunk.lines.map((line, i) => (
+                <div key={i} className={`whitespace-pre ${lineClass(line)}`}>
+                  <LineNumber line={line.oldLine} />
+                  <LineNumber line={line.newLine} />
+                  <Marker kind={line.kind} />
+                  {line.content}
+                </div>
+              ))}
+        </div>
+      ))}
+    </div>
+  )
+}
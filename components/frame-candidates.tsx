@@ -0,0 +1,150 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Spinner } from "@/components/ui/spinner"
+import { Search } from "lucide-react"
+
+interface FrameCandidate {
+  kind: "declaration" | "file-name" | "similar"
+  repository: string
+  relativePath: string
+  typeName?: string
+  line?: number
+  score: number
+}
+
+export interface PickedFile {
+  repository: string
+  relativePath: string
+  typeName?: string
+}
+
+/**
+ * What the user picked for a frame: another file, exact lines, or both
+ */
+export interface FrameOverride {
+  file?: PickedFile
+  lineRange?: { start: number; end: number }
+}
+
+interface Props {
+  candidates?: FrameCandidate[]
+  // File the frame is currently analyzed against, when one was found
+  currentFile?: PickedFile
+  // Re-run location and blame for the frame; omitted while no analysis can be re-run
+  onOverride?: (override: FrameOverride) => void
+  busy?: boolean
+}
+
+const KIND_LABELS: Record<FrameCandidate["kind"], string> = {
+  declaration: "declares type",
+  "file-name": "file name",
+  similar: "similar",
+}
+
+/**
+ * Files a frame could be analyzed against, and an exact line range the user can blame instead
+ */
+export function FrameCandidates({ candidates = [], currentFile, onOverride, busy }: Props) {
+  const [showRange, setShowRange] = useState(false)
+  const [start, setStart] = useState("")
+  const [end, setEnd] = useState("")
+
+  const isCurrent = (candidate: FrameCandidate) =>
+    candidate.repository === currentFile?.repository && candidate.relativePath === currentFile.relativePath
+  const range = { start: Number(start), end: Number(end || start) }
+  const validRange = Number.isInteger(range.start) && range.start >= 1 && range.end >= range.start
+
+  return (
+    <div className="space-y-1">
+      {candidates.length > 0 && (
+        <p className="text-xs font-medium text-foreground flex items-center gap-1">
+          <Search className="w-3 h-3" />
+          {currentFile ? "Candidate files" : "Similar declarations"}
+          {busy && <Spinner className="w-3 h-3 ml-1" />}
+        </p>
+      )}
+      {candidates.map((candidate) => (
+        <div
+          key={`${candidate.repository}:${candidate.relativePath}:${candidate.typeName ?? ""}`}
+          className="flex items-center gap-2 p-2 rounded border border-border/50 bg-muted/20 text-xs"
+        >
+          <div className="flex-1 min-w-0">
+            {candidate.typeName && <code className="font-mono text-foreground break-all">{candidate.typeName}</code>}
+            <p className="text-muted-foreground break-all">
+              {candidate.repository}: {candidate.relativePath}
+              {candidate.line && `:${candidate.line}`}
+            </p>
+          </div>
+          <span className="text-muted-foreground flex-shrink-0">
+            {KIND_LABELS[candidate.kind]},{" "}
+            {candidate.kind === "similar" ? `${Math.round(candidate.score * 100)}%` : `score ${candidate.score}`}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs flex-shrink-0"
+            disabled={!onOverride || busy || isCurrent(candidate)}
+            onClick={() =>
+              onOverride?.({
+                file: {
+                  repository: candidate.repository,
+                  relativePath: candidate.relativePath,
+                  typeName: candidate.typeName,
+                },
+              })
+            }
+          >
+            {isCurrent(candidate) ? "Current" : "Use"}
+          </Button>
+        </div>
+      ))}
+
+      {currentFile && onOverride && (
+        <div className="pt-1">
+          {showRange ? (
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-muted-foreground">Blame lines</span>
+              <Input
+                type="number"
+                min={1}
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+                className="h-7 w-20 text-xs"
+                placeholder="start"
+              />
+              <span className="text-muted-foreground">-</span>
+              <Input
+                type="number"
+                min={1}
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+                className="h-7 w-20 text-xs"
+                placeholder="end"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={busy || !validRange}
+                onClick={() => onOverride({ file: currentFile, lineRange: range })}
+              >
+                Re-run
+              </Button>
+              {busy && <Spinner className="w-3 h-3" />}
+            </div>
+          ) : (
+            <button
+              onClick={() => setShowRange(true)}
+              className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Enter an exact line range
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
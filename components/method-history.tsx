@@ -0,0 +1,89 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ChevronDown, ExternalLink, History } from "lucide-react"
+
+interface MethodHistoryCommit {
+  commitHash: string
+  author: string
+  commitDate: string
+  commitMessage: string
+  prNumber?: string
+  prUrl?: string
+  prSource?: "github" | "azure"
+  diff: string
+}
+
+interface Props {
+  commits: MethodHistoryCommit[]
+}
+
+function diffLineClass(line: string): string {
+  if (line.startsWith("@@")) return "text-muted-foreground"
+  if (line.startsWith("+")) return "bg-chart-1/15 text-foreground"
+  if (line.startsWith("-")) return "bg-destructive/15 text-foreground"
+  return "text-foreground/70"
+}
+
+/**
+ * Every commit that touched a method in the date window, newest first, each with its diff of the method
+ */
+export function MethodHistory({ commits }: Props) {
+  const [openDiffs, setOpenDiffs] = useState<Set<string>>(new Set())
+
+  const toggleDiff = (hash: string) => {
+    const next = new Set(openDiffs)
+    if (next.has(hash)) {
+      next.delete(hash)
+    } else {
+      next.add(hash)
+    }
+    setOpenDiffs(next)
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-foreground flex items-center gap-1">
+        <History className="w-3 h-3" />
+        Method history ({commits.length} {commits.length === 1 ? "commit" : "commits"} in date range)
+      </p>
+      {commits.length === 0 && <p className="text-xs text-muted-foreground">No commits touched the method.</p>}
+      {commits.map((commit) => (
+        <div key={commit.commitHash} className="p-2 rounded border border-border/50 bg-muted/20 text-xs">
+          <div className="flex items-center justify-between gap-2">
+            <button
+              onClick={() => toggleDiff(commit.commitHash)}
+              className="flex items-center gap-1 min-w-0 flex-1 flex-wrap text-left"
+            >
+              <ChevronDown
+                className={`w-3 h-3 flex-shrink-0 transition-transform ${openDiffs.has(commit.commitHash) ? "rotate-180" : ""}`}
+              />
+              <code className="text-foreground/70 font-mono">{commit.commitHash.slice(0, 8)}</code>
+              <span className="text-foreground/60 truncate">{commit.author}</span>
+              <span className="text-foreground/50 flex-shrink-0">{new Date(commit.commitDate).toLocaleDateString()}</span>
+            </button>
+            {commit.prUrl && (
+              <Button asChild variant="outline" size="sm" className="text-xs h-6 bg-transparent flex-shrink-0">
+                <a href={commit.prUrl} target="_blank" rel="noopener noreferrer">
+                  {commit.prSource === "azure" ? "azure" : "PR"} #{commit.prNumber}
+                  <ExternalLink className="w-3 h-3 ml-1" />
+                </a>
+              </Button>
+            )}
+          </div>
+          <p className="text-foreground/80 mt-1 break-all">{commit.commitMessage}</p>
+          {openDiffs.has(commit.commitHash) && (
+            <pre className="mt-2 p-2 rounded bg-background border border-border/50 overflow-x-auto font-mono text-[11px] leading-4">
+              {commit.diff.split("\n").map((line, i) => (
+                <div key={i} className={diffLineClass(line)}>
+                  {line || " "}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,365 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Spinner } from "@/components/ui/spinner"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { AlertCircle, CheckCircle2, ChevronDown, ChevronRight, Plus, Trash2 } from "lucide-react"
+import { DEFAULT_FRAME_RULES, FRAME_RULE_KINDS, type FrameRule } from "@/lib/frame-filter"
+
+export interface ConfiguredRepository {
+  name: string
+  root: string
+  source?: "file" | "env"
+  frameRules?: FrameRule[]
+  valid?: boolean
+  error?: string
+}
+
+export interface ConfiguredRoute {
+  namespace: string
+  repository: string
+}
+
+export interface RepositoryConfigResponse {
+  configPath: string
+  defaultRepository?: string
+  repositories: ConfiguredRepository[]
+  routes: ConfiguredRoute[]
+}
+
+interface Props {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  config: RepositoryConfigResponse | null
+  onSaved: (config: RepositoryConfigResponse) => void
+}
+
+export function RepositorySettings({ open, onOpenChange, config, onSaved }: Props) {
+  const [repositories, setRepositories] = useState<ConfiguredRepository[]>([])
+  const [defaultRepository, setDefaultRepository] = useState<string | undefined>()
+  const [routes, setRoutes] = useState<ConfiguredRoute[]>([])
+  const [expandedRules, setExpandedRules] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (open) {
+      setRepositories(config?.repositories ?? [])
+      setDefaultRepository(config?.defaultRepository)
+      setRoutes(config?.routes ?? [])
+      setExpandedRules(null)
+      setError("")
+    }
+  }, [open, config])
+
+  const updateRepository = (index: number, changes: Partial<ConfiguredRepository>) => {
+    setRepositories((prev) =>
+      prev.map((r, i) => (i === index ? { ...r, ...changes, valid: undefined, error: undefined } : r)),
+    )
+  }
+
+  // Editing a repository that uses the defaults starts from a copy of them
+  const updateFrameRules = (index: number, update: (rules: FrameRule[]) => FrameRule[]) => {
+    setRepositories((prev) =>
+      prev.map((r, i) => (i === index ? { ...r, frameRules: update(r.frameRules ?? DEFAULT_FRAME_RULES) } : r)),
+    )
+  }
+
+  const updateFrameRule = (index: number, ruleIndex: number, changes: Partial<FrameRule>) => {
+    updateFrameRules(index, (rules) => rules.map((rule, i) => (i === ruleIndex ? { ...rule, ...changes } : rule)))
+  }
+
+  const updateRoute = (index: number, changes: Partial<ConfiguredRoute>) => {
+    setRoutes((prev) => prev.map((r, i) => (i === index ? { ...r, ...changes } : r)))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError("")
+
+    try {
+      const response = await fetch("/api/config", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ repositories, defaultRepository, routes }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Failed to save settings")
+        return
+      }
+
+      onSaved(data)
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save settings")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Repositories</DialogTitle>
+          <DialogDescription>
+            Each repository must be a local git work tree. Settings are saved to{" "}
+            <code className="font-mono text-xs">{config?.configPath ?? "stacktrace-analyzer.config.json"}</code>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {repositories.length === 0 && (
+            <p className="text-sm text-muted-foreground">No repositories configured yet.</p>
+          )}
+          {repositories.map((repository, idx) => {
+            const fromEnv = repository.source === "env"
+            const frameRules = repository.frameRules ?? DEFAULT_FRAME_RULES
+            const rulesExpanded = expandedRules === idx
+
+            return (
+              <div key={idx} className="p-3 rounded-lg border border-border space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={repository.name}
+                    onChange={(e) => updateRepository(idx, { name: e.target.value })}
+                    placeholder="Name"
+                    disabled={fromEnv || isSaving}
+                    className="w-40"
+                  />
+                  <Input
+                    value={repository.root}
+                    onChange={(e) => updateRepository(idx, { root: e.target.value })}
+                    placeholder="C:\git\MyRepo or /home/me/src/my-repo"
+                    disabled={fromEnv || isSaving}
+                    className="flex-1 font-mono text-xs"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setRepositories((prev) => prev.filter((_, i) => i !== idx))}
+                    disabled={fromEnv || isSaving}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-3 text-xs">
+                  <label className="flex items-center gap-1 text-muted-foreground">
+                    <input
+                      type="radio"
+                      name="default-repository"
+                      checked={defaultRepository === repository.name}
+                      onChange={() => setDefaultRepository(repository.name)}
+                      disabled={isSaving}
+                    />
+                    Default
+                  </label>
+                  {fromEnv && (
+                    <Badge variant="outline" className="text-xs">
+                      STACKTRACE_ANALYZER_PROJECT_ROOT
+                    </Badge>
+                  )}
+                  {repository.valid === true && (
+                    <span className="flex items-center gap-1 text-chart-1">
+                      <CheckCircle2 className="w-3 h-3" />
+                      Git work tree
+                    </span>
+                  )}
+                  {repository.valid === false && (
+                    <span className="flex items-center gap-1 text-destructive">
+                      <AlertCircle className="w-3 h-3" />
+                      {repository.error}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => setExpandedRules(rulesExpanded ? null : idx)}
+                    className="ml-auto flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    {rulesExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                    Frame rules ({repository.frameRules ? frameRules.length : "defaults"})
+                  </button>
+                </div>
+                {rulesExpanded && (
+                  <div className="pl-3 border-l border-border space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      The first matching rule decides whether a frame is analyzed; frames matching no rule are kept.
+                      Namespace and assembly patterns are globs (<code className="font-mono">System.*</code>), regexes
+                      are tested against <code className="font-mono">Namespace.Class.Method</code>.
+                      {fromEnv && " Add this repository to the config file to change its rules."}
+                    </p>
+                    {frameRules.map((rule, ruleIdx) => (
+                      <div key={ruleIdx} className="flex items-center gap-2">
+                        <Select
+                          value={rule.action}
+                          onValueChange={(value) =>
+                            updateFrameRule(idx, ruleIdx, { action: value as FrameRule["action"] })
+                          }
+                          disabled={fromEnv || isSaving}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="exclude">Exclude</SelectItem>
+                            <SelectItem value="include">Include</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={rule.kind}
+                          onValueChange={(value) => updateFrameRule(idx, ruleIdx, { kind: value as FrameRule["kind"] })}
+                          disabled={fromEnv || isSaving}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {FRAME_RULE_KINDS.map((kind) => (
+                              <SelectItem key={kind} value={kind}>
+                                {kind}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          value={rule.pattern}
+                          onChange={(e) => updateFrameRule(idx, ruleIdx, { pattern: e.target.value })}
+                          placeholder="System.*"
+                          disabled={fromEnv || isSaving}
+                          className="flex-1 font-mono text-xs"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => updateFrameRules(idx, (rules) => rules.filter((_, i) => i !== ruleIdx))}
+                          disabled={fromEnv || isSaving}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          updateFrameRules(idx, (rules) => [...rules, { kind: "namespace", pattern: "", action: "exclude" }])
+                        }
+                        disabled={fromEnv || isSaving}
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add frame rule
+                      </Button>
+                      {repository.frameRules && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateRepository(idx, { frameRules: undefined })}
+                          disabled={fromEnv || isSaving}
+                        >
+                          Reset to defaults
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setRepositories((prev) => [...prev, { name: "", root: "", source: "file" }])}
+            disabled={isSaving}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add repository
+          </Button>
+
+          <div className="pt-3 border-t border-border space-y-2">
+            <p className="text-sm font-medium text-foreground">Namespace routing</p>
+            <p className="text-xs text-muted-foreground">
+              Frames matching a pattern such as <code className="font-mono">Enterprise.Core.*</code> are looked up in
+              the chosen repository first. All other frames search the selected repository, then the rest in order.
+            </p>
+            {routes.map((route, idx) => (
+              <div key={idx} className="flex items-center gap-2">
+                <Input
+                  value={route.namespace}
+                  onChange={(e) => updateRoute(idx, { namespace: e.target.value })}
+                  placeholder="Enterprise.Core.*"
+                  disabled={isSaving}
+                  className="flex-1 font-mono text-xs"
+                />
+                <Select
+                  value={route.repository}
+                  onValueChange={(value) => updateRoute(idx, { repository: value })}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Repository" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {repositories
+                      .filter((r) => r.name)
+                      .map((r) => (
+                        <SelectItem key={r.name} value={r.name}>
+                          {r.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setRoutes((prev) => prev.filter((_, i) => i !== idx))}
+                  disabled={isSaving}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRoutes((prev) => [...prev, { namespace: "", repository: "" }])}
+              disabled={isSaving || repositories.length === 0}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add routing rule
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/30 text-sm text-destructive">
+            <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            {error}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Spinner className="w-4 h-4 mr-2" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
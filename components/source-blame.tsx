@@ -0,0 +1,85 @@
+"use client"
+
+import { FileCode } from "lucide-react"
+
+interface BlameLine {
+  lineNumber: number
+  commitHash: string
+  author: string
+  date: string
+  commitMessage: string
+  content: string
+  inDateRange: boolean
+}
+
+interface Props {
+  lines: BlameLine[]
+  crashLine?: number
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Gutter colour by commit age, newest first: [max age in days, class]
+const AGE_COLORS: Array<[number, string]> = [
+  [7, "bg-chart-1"],
+  [30, "bg-chart-1/70"],
+  [90, "bg-chart-1/45"],
+  [365, "bg-chart-1/25"],
+  [Infinity, "bg-muted-foreground/20"],
+]
+
+function ageColor(date: string): string {
+  const days = (Date.now() - new Date(date).getTime()) / DAY
+  return AGE_COLORS.find(([maxDays]) => days <= maxDays)?.[1] ?? AGE_COLORS[AGE_COLORS.length - 1][1]
+}
+
+function lineClass(line: BlameLine, crashLine?: number): string {
+  if (line.lineNumber === crashLine) return "bg-destructive/15"
+  if (line.inDateRange) return "bg-chart-1/10"
+  return ""
+}
+
+/**
+ * The frame's source lines with a blame gutter: each run of lines from one commit shows its short SHA and author,
+ * with a bar coloured by the commit's age
+ */
+export function SourceBlame({ lines, crashLine }: Props) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-foreground flex items-center gap-1">
+        <FileCode className="w-3 h-3" />
+        Source (lines {lines[0].lineNumber}-{lines[lines.length - 1].lineNumber})
+      </p>
+      <div className="rounded border border-border/50 bg-background overflow-x-auto font-mono text-[11px] leading-4">
+        {lines.map((line, i) => {
+          const startsRun = i === 0 || lines[i - 1].commitHash !== line.commitHash
+          return (
+            <div key={line.lineNumber} className={`flex whitespace-pre ${lineClass(line, crashLine)}`}>
+              <span className={`w-1 flex-shrink-0 ${ageColor(line.date)}`} />
+              <span
+                className="w-40 flex-shrink-0 px-2 truncate text-muted-foreground select-none"
+                title={`${line.commitHash.slice(0, 8)} ${line.author} ${line.date}\n${line.commitMessage}`}
+              >
+                {startsRun && (
+                  <>
+                    <span className="text-foreground/70">{line.commitHash.slice(0, 8)}</span> {line.author}
+                  </>
+                )}
+              </span>
+              <span className="w-10 flex-shrink-0 pr-2 text-right text-muted-foreground select-none">
+                {line.lineNumber}
+              </span>
+              <span className="w-3 flex-shrink-0 text-destructive select-none">
+                {line.lineNumber === crashLine ? ">" : " "}
+              </span>
+              <span className="text-foreground/90">{line.content}</span>
+            </div>
+          )
+        })}
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        Highlighted lines changed in the selected date range{crashLine && "; the crash line is marked in red"}
+      </p>
+    </div>
+  )
+}
@@ -6,17 +6,52 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Textarea } from "@/components/ui/textarea"
 import { Input } from "@/components/ui/input"
 import { Spinner } from "@/components/ui/spinner"
-import { AlertCircle, GitBranch, CheckCircle2, Info, Copy } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { AlertCircle, GitBranch, CheckCircle2, Info, Copy, Settings } from 'lucide-react'
 import { AnalysisResults } from "./analysis-results"
 import { StackTraceViewer } from "./stack-trace-viewer"
+import type { FrameOverride } from "./frame-candidates"
+import { RepositorySettings, type RepositoryConfigResponse } from "./repository-settings"
+import { readAnalysisStream, type AnalysisSummary, type ExceptionHeader } from "@/lib/analysis-stream"
+import type { ProgressStep } from "@/lib/progress-tracker"
+import { DEFAULT_FRAME_RULES, type FrameRule } from "@/lib/frame-filter"
+import { getEntryKey } from "@/lib/stack-trace-parser"
 
 interface AnalysisResult {
+  exceptionId: string
   namespace: string
   methodName: string
+  compilerGenerated?: "state-machine" | "lambda" | "local-function"
+  localFunction?: string
+  nestedType?: string
+  memberKind?: "constructor" | "static-constructor" | "getter" | "setter" | "operator"
+  explicitInterface?: string
+  repository?: string
+  // Commit the file was read and blamed at, when the analysis ran against a revision
+  commit?: string
   filePath: string
+  relativePath?: string
+  partialFiles?: string[]
+  inheritanceChain?: string[]
   fileFound: boolean
   lineRange: { start: number; end: number } | null
   methodFound: boolean
+  manualLineRange?: boolean
+  overloadCount?: number
+  overloadConfidence?: number
+  crashLine?: number
+  blameRange?: { start: number; end: number }
+  hints?: Array<{ line: number; expression: string; message: string }>
+  candidates?: Array<{
+    kind: "declaration" | "file-name" | "similar"
+    repository: string
+    relativePath: string
+    typeName?: string
+    line?: number
+    score: number
+  }>
   gitBlameResults: Array<{
     commitHash: string
     author: string
@@ -27,31 +62,100 @@ interface AnalysisResult {
     inDateRange: boolean
     lineCount: number
   }>
+  methodHistory?: Array<{
+    commitHash: string
+    author: string
+    commitDate: string
+    commitMessage: string
+    prNumber?: string
+    prUrl?: string
+    prSource?: "github" | "azure"
+    diff: string
+  }>
   error?: string
 }
 
-interface ProgressStep {
-  stepNumber: number
-  totalSteps: number
-  title: string
-  description: string
-  status: "running" | "complete" | "error"
-  percentage: number
-  timestamp: string
+type DatePreset = "custom" | "last-7-days" | "last-30-days" | "since-tag" | "between-tags" | "first-seen"
+
+// Each end of the analyzed window is a date or a tag, as accepted by the analysis routes
+interface DateRangeRequest {
+  startDate?: string
+  endDate?: string
+  startTag?: string
+  endTag?: string
+}
+
+interface AnalysisRequest extends DateRangeRequest {
+  stackTrace: string
+  repository: string
+  revision?: string
+  version?: string
+  methodHistory?: boolean
+}
+
+const DATE_PRESETS: Array<{ value: DatePreset; label: string }> = [
+  { value: "custom", label: "Custom dates" },
+  { value: "last-7-days", label: "Last 7 days" },
+  { value: "last-30-days", label: "Last 30 days" },
+  { value: "since-tag", label: "Since tag" },
+  { value: "between-tags", label: "Between release tags" },
+  { value: "first-seen", label: "Since crash first seen" },
+]
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split("T")[0]
 }
 
 export function StackTraceAnalyzer() {
   const [stackTrace, setStackTrace] = useState("")
-  const [startDate, setStartDate] = useState(
-    new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split("T")[0],
-  )
+  // Window in which changes count as recent: dates, a rolling preset, or release tags resolved to their commit dates
+  const [datePreset, setDatePreset] = useState<DatePreset>("custom")
+  const [startDate, setStartDate] = useState(daysAgo(30))
+  const [endDate, setEndDate] = useState("")
+  const [startTag, setStartTag] = useState("")
+  const [endTag, setEndTag] = useState("")
+  // Commit SHA, tag or branch, or product version, of the build that crashed; empty analyzes the working tree
+  const [revision, setRevision] = useState("")
+  const [revisionKind, setRevisionKind] = useState<"revision" | "version">("revision")
+  // List every commit that touched each method (git log -L), not only the ones blame still shows
+  const [methodHistory, setMethodHistory] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [results, setResults] = useState<AnalysisResult[]>([])
+  const [exception, setException] = useState<ExceptionHeader | null>(null)
+  const [summary, setSummary] = useState<AnalysisSummary | undefined>()
+  // Rules of the repository the last analysis ran against, so the viewer filters frames the same way
+  const [frameRules, setFrameRules] = useState<FrameRule[]>(DEFAULT_FRAME_RULES)
+  // Inputs of the last analysis, so single frames can be re-run after the form changes
+  const [analyzedRequest, setAnalyzedRequest] = useState<AnalysisRequest | null>(null)
+  // Key of the frame being re-run against a picked file or line range
+  const [reanalyzing, setReanalyzing] = useState<string | null>(null)
   const [error, setError] = useState("")
   const [success, setSuccess] = useState("")
   const [showHelp, setShowHelp] = useState(false)
   const [progressSteps, setProgressSteps] = useState<ProgressStep[]>([])
   const [showProgressDetail, setShowProgressDetail] = useState(true)
+  const [repositoryConfig, setRepositoryConfig] = useState<RepositoryConfigResponse | null>(null)
+  const [repository, setRepository] = useState("")
+  const [showSettings, setShowSettings] = useState(false)
+
+  useEffect(() => {
+    fetch("/api/config")
+      .then((response) => response.json())
+      .then((data: RepositoryConfigResponse) => {
+        if (data.repositories) {
+          setRepositoryConfig(data)
+        }
+      })
+      .catch((err) => console.error("Failed to load repository settings:", err))
+  }, [])
+
+  useEffect(() => {
+    // Keep the selection valid when repositories are added, renamed or removed
+    const names = repositoryConfig?.repositories.map((r) => r.name) ?? []
+    if (!names.includes(repository)) {
+      setRepository(repositoryConfig?.defaultRepository ?? names[0] ?? "")
+    }
+  }, [repositoryConfig, repository])
 
   useEffect(() => {
     const progressContainer = document.getElementById("progress-logs")
@@ -62,6 +166,34 @@ export function StackTraceAnalyzer() {
     }
   }, [progressSteps])
 
+  /**
+   * The window for the selected preset, or the error to show when its inputs are incomplete
+   */
+  const buildDateRange = (): DateRangeRequest | string => {
+    switch (datePreset) {
+      case "last-7-days":
+        return { startDate: daysAgo(7) }
+      case "last-30-days":
+        return { startDate: daysAgo(30) }
+      case "since-tag":
+        return startTag.trim() ? { startTag: startTag.trim() } : "Please enter the tag to start from"
+      case "between-tags":
+        return startTag.trim() && endTag.trim()
+          ? { startTag: startTag.trim(), endTag: endTag.trim() }
+          : "Please enter the last good and the first failing release tags"
+      case "first-seen":
+        return startDate ? { startDate } : "Please select the date the crash was first seen"
+      default:
+        if (!startDate) {
+          return "Please select a start date"
+        }
+        if (endDate && endDate < startDate) {
+          return "The end date must not be before the start date"
+        }
+        return { startDate, endDate: endDate || undefined }
+    }
+  }
+
   const handleAnalyze = async () => {
     if (!stackTrace.trim()) {
       setError("Please enter a stack trace")
@@ -69,8 +201,15 @@ export function StackTraceAnalyzer() {
       return
     }
 
-    if (!startDate) {
-      setError("Please select a start date")
+    const dateRange = buildDateRange()
+    if (typeof dateRange === "string") {
+      setError(dateRange)
+      setSuccess("")
+      return
+    }
+
+    if (!repository) {
+      setError("Please configure a repository in settings")
       setSuccess("")
       return
     }
@@ -79,42 +218,66 @@ export function StackTraceAnalyzer() {
     setError("")
     setSuccess("")
     setResults([])
+    setException(null)
+    setSummary(undefined)
+    setFrameRules(repositoryConfig?.repositories.find((r) => r.name === repository)?.frameRules ?? DEFAULT_FRAME_RULES)
     setProgressSteps([])
     setShowProgressDetail(true)
+    const request = {
+      stackTrace,
+      ...dateRange,
+      repository,
+      [revisionKind]: revision.trim() || undefined,
+      methodHistory: methodHistory || undefined,
+    }
+    setAnalyzedRequest(request)
 
     try {
       const response = await fetch("/api/analyze-stacktrace", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          stackTrace,
-          startDate,
-        }),
+        body: JSON.stringify(request),
       })
 
-      const data = await response.json()
-
       if (!response.ok) {
+        const data = await response.json()
         setError(data.error || "Failed to analyze stack trace")
         return
       }
 
-      if (data.progress) {
-        setProgressSteps(data.progress)
-      }
-
-      setResults(data.results || [])
-
-      if (data.results && data.results.length > 0) {
-        const filesFound = data.results.filter((r: any) => r.fileFound).length
-        const methodsFound = data.results.filter((r: any) => r.methodFound).length
-        const withChanges = data.results.filter((r: any) =>
-          r.gitBlameResults.some((g: any) => g.inDateRange),
-        ).length
-        setSuccess(
-          `Analysis complete: ${filesFound} files found, ${methodsFound} methods located, ${withChanges} with changes in date range`,
-        )
-      }
+      await readAnalysisStream<AnalysisResult>(response, (event) => {
+        switch (event.type) {
+          case "exception":
+            setException(event.exception)
+            break
+          case "progress":
+            // Updates to an existing step replace it in place
+            setProgressSteps((prev) => {
+              const index = prev.findIndex((s) => s.stepNumber === event.step.stepNumber)
+              if (index === -1) {
+                return [...prev, event.step]
+              }
+              const next = [...prev]
+              next[index] = event.step
+              return next
+            })
+            break
+          case "result":
+            setResults((prev) => [...prev, event.result])
+            break
+          case "complete":
+            setSummary(event.summary)
+            if (event.summary.totalEntries > 0) {
+              setSuccess(
+                `Analysis complete: ${event.summary.filesFound} files found, ${event.summary.methodsFound} methods located, ${event.summary.withChanges} with changes in date range`,
+              )
+            }
+            break
+          case "error":
+            setError(event.error || "Failed to analyze stack trace")
+            break
+        }
+      })
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred during analysis")
       console.error("Analysis error:", err)
@@ -123,6 +286,51 @@ export function StackTraceAnalyzer() {
     }
   }
 
+  const handleOverride = async (
+    result: Pick<AnalysisResult, "exceptionId" | "namespace" | "methodName" | "nestedType" | "memberKind" | "explicitInterface">,
+    override: FrameOverride,
+  ) => {
+    if (!analyzedRequest) {
+      return
+    }
+
+    const key = `${result.exceptionId}:${getEntryKey(result)}`
+    setReanalyzing(key)
+    setError("")
+
+    try {
+      const response = await fetch("/api/analyze-frame", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...analyzedRequest,
+          exceptionId: result.exceptionId,
+          frameKey: getEntryKey(result),
+          ...override,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || "Failed to re-analyze frame")
+        return
+      }
+
+      // A re-run skips the search, so keep the candidates found by the full analysis
+      setResults((prev) =>
+        prev.map((r) =>
+          `${r.exceptionId}:${getEntryKey(r)}` === key
+            ? { ...data.result, candidates: data.result.candidates ?? r.candidates }
+            : r,
+        ),
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred while re-analyzing the frame")
+      console.error("Frame analysis error:", err)
+    } finally {
+      setReanalyzing(null)
+    }
+  }
+
   const copyExample = () => {
     const example = `at Enterprise.Core.Forms.ZGridColumnStyle.GetColumnValueAtRowCore(CurrencyManager source, Int32 rowNum)
     at Enterprise.Core.Forms.ZGridColumnStyle.ColumnTextAtRow(CurrencyManager source, Int32 rowNum)
@@ -139,6 +347,10 @@ export function StackTraceAnalyzer() {
           <div className="flex items-center gap-3 mb-3">
             <GitBranch className="w-8 h-8 text-primary" />
             <h1 className="text-4xl font-bold tracking-tight text-foreground">Stack Trace Analyzer</h1>
+            <Button variant="outline" size="sm" className="ml-auto" onClick={() => setShowSettings(true)}>
+              <Settings className="w-4 h-4 mr-1" />
+              Settings
+            </Button>
           </div>
           <p className="text-lg text-muted-foreground">
             Automatically parse stack traces, locate source files, and identify code changes with Git Blame insights
@@ -154,8 +366,8 @@ export function StackTraceAnalyzer() {
                 <div>
                   <CardTitle>Input Stack Trace</CardTitle>
                   <CardDescription>
-                    Paste your full stack trace. The tool automatically filters System.* entries and analyzes custom
-                    code.
+                    Paste your full stack trace. Framework frames (System.*, Microsoft.*, Newtonsoft.* by default) are
+                    filtered by the repository&apos;s frame rules and custom code is analyzed.
                   </CardDescription>
                 </div>
                 <button
@@ -172,7 +384,7 @@ export function StackTraceAnalyzer() {
                   <p className="font-semibold">How it works:</p>
                   <ul className="space-y-1 list-disc list-inside text-muted-foreground">
                     <li>Paste your complete stack trace from error logs</li>
-                    <li>Select the date you want to start searching from</li>
+                    <li>Pick the window of changes to flag: dates, the last days, or release tags</li>
                     <li>The tool finds each method in your source code</li>
                     <li>Git Blame shows who changed each line and when</li>
                     <li>PR links help you review the actual changes</li>
@@ -199,20 +411,146 @@ export function StackTraceAnalyzer() {
                 </button>
               </div>
 
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                 <div className="space-y-3">
-                  <label className="text-sm font-medium text-foreground">Start Date</label>
-                  <Input
-                    type="date"
-                    value={startDate}
-                    onChange={(e) => setStartDate(e.target.value)}
+                  <label className="text-sm font-medium text-foreground">Date Range</label>
+                  <Select
+                    value={datePreset}
+                    onValueChange={(value) => setDatePreset(value as DatePreset)}
                     disabled={isLoading}
-                    className="w-full"
-                  />
-                  <p className="text-xs text-muted-foreground">End date automatically set to today</p>
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DATE_PRESETS.map((preset) => (
+                        <SelectItem key={preset.value} value={preset.value}>
+                          {preset.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {(datePreset === "custom" || datePreset === "first-seen") && (
+                    <div className="flex gap-2">
+                      <Input
+                        type="date"
+                        value={startDate}
+                        onChange={(e) => setStartDate(e.target.value)}
+                        disabled={isLoading}
+                        className="w-full"
+                        aria-label={datePreset === "first-seen" ? "First seen" : "Start date"}
+                      />
+                      {datePreset === "custom" && (
+                        <Input
+                          type="date"
+                          value={endDate}
+                          onChange={(e) => setEndDate(e.target.value)}
+                          disabled={isLoading}
+                          className="w-full"
+                          aria-label="End date"
+                        />
+                      )}
+                    </div>
+                  )}
+                  {(datePreset === "since-tag" || datePreset === "between-tags") && (
+                    <div className="flex gap-2">
+                      <Input
+                        value={startTag}
+                        onChange={(e) => setStartTag(e.target.value)}
+                        placeholder={datePreset === "between-tags" ? "Last good tag" : "Tag"}
+                        disabled={isLoading}
+                        className="w-full font-mono"
+                      />
+                      {datePreset === "between-tags" && (
+                        <Input
+                          value={endTag}
+                          onChange={(e) => setEndTag(e.target.value)}
+                          placeholder="First failing tag"
+                          disabled={isLoading}
+                          className="w-full font-mono"
+                        />
+                      )}
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {datePreset === "custom"
+                      ? "Leave the end date empty to include changes up to today"
+                      : datePreset === "first-seen"
+                        ? "Date the crash was first reported; changes from then to today are flagged"
+                        : datePreset === "since-tag" || datePreset === "between-tags"
+                          ? "Tags are resolved to the dates of their commits"
+                          : `Changes since ${daysAgo(datePreset === "last-7-days" ? 7 : 30)} are flagged`}
+                  </p>
+                </div>
+                <div className="space-y-3">
+                  <label className="text-sm font-medium text-foreground">Repository</label>
+                  <Select value={repository} onValueChange={setRepository} disabled={isLoading}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="No repositories configured" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {repositoryConfig?.repositories.map((r) => (
+                        <SelectItem key={r.name} value={r.name}>
+                          {r.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground break-all">
+                    {repositoryConfig?.repositories.find((r) => r.name === repository)?.root ??
+                      "Add a repository in settings"}
+                    {(repositoryConfig?.repositories.length ?? 0) > 1 && " (other repositories are searched after it)"}
+                  </p>
+                </div>
+                <div className="space-y-3">
+                  <label className="text-sm font-medium text-foreground">Revision</label>
+                  <div className="flex gap-2">
+                    <Select
+                      value={revisionKind}
+                      onValueChange={(value) => setRevisionKind(value as "revision" | "version")}
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger className="w-28 flex-shrink-0">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="revision">Commit</SelectItem>
+                        <SelectItem value="version">Version</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={revision}
+                      onChange={(e) => setRevision(e.target.value)}
+                      placeholder={revisionKind === "version" ? "25.3.1042" : "Working tree"}
+                      disabled={isLoading}
+                      className="w-full font-mono"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {revisionKind === "version"
+                      ? "Product version from the crash report, matched to a commit by tag, version map or +sha suffix"
+                      : "Commit SHA, tag or branch of the build; files are read and blamed as of that commit"}
+                  </p>
                 </div>
               </div>
 
+              <div className="flex items-start gap-3">
+                <Switch
+                  id="method-history"
+                  checked={methodHistory}
+                  onCheckedChange={setMethodHistory}
+                  disabled={isLoading}
+                  className="mt-0.5"
+                />
+                <label htmlFor="method-history" className="text-sm text-foreground">
+                  Method history
+                  <span className="block text-xs text-muted-foreground">
+                    List every commit that changed each method in the date range, with its diff, including changes
+                    later overwritten (slower; uses git log -L)
+                  </span>
+                </label>
+              </div>
+
               {error && (
                 <div className="flex gap-3 p-4 rounded-lg bg-destructive/10 border border-destructive/30">
                   <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
@@ -256,7 +594,7 @@ export function StackTraceAnalyzer() {
                           Step {progressSteps[progressSteps.length - 1].stepNumber} of
                           {progressSteps[0].totalSteps} -
                           {Math.round(
-                            (progressSteps.filter((s) => s.status === "complete").length /
+                            (progressSteps.filter((s) => s.status === "success").length /
                               progressSteps[0].totalSteps) *
                               100,
                           )}
@@ -280,7 +618,7 @@ export function StackTraceAnalyzer() {
                       <div
                         key={idx}
                         className={`p-3 rounded border flex items-start gap-2 transition-colors ${
-                          step.status === "complete"
+                          step.status === "success"
                             ? "bg-chart-1/10 border-chart-1/30 text-foreground"
                             : step.status === "error"
                               ? "bg-destructive/10 border-destructive/30 text-destructive"
@@ -289,15 +627,13 @@ export function StackTraceAnalyzer() {
                       >
                         <span className="flex-shrink-0 font-semibold text-foreground w-8">[{step.stepNumber}]</span>
                         <div className="flex-1 min-w-0">
-                          <p className="font-semibold truncate">{step.title}</p>
-                          {step.description && (
-                            <p className="text-xs opacity-70 truncate">{step.description}</p>
-                          )}
+                          <p className="font-semibold truncate">{step.stepName}</p>
+                          {step.details && <p className="text-xs opacity-70 truncate">{step.details}</p>}
                           <p className="text-xs opacity-60 mt-1">{step.timestamp}</p>
                         </div>
                         <div className="flex-shrink-0 flex flex-col items-end gap-1">
                           <span className="font-semibold">{step.percentage}%</span>
-                          {step.status === "complete" && (
+                          {step.status === "success" && (
                             <CheckCircle2 className="w-4 h-4 text-chart-1" />
                           )}
                           {step.status === "error" && <AlertCircle className="w-4 h-4 text-destructive" />}
@@ -318,12 +654,43 @@ export function StackTraceAnalyzer() {
                 <CheckCircle2 className="w-5 h-5 text-chart-1" />
                 <h2 className="text-xl font-semibold text-foreground">Analysis Results</h2>
               </div>
-              {/* Show stack trace viewer with analysis results integrated */}
-              <StackTraceViewer stackTrace={stackTrace} results={results} />
+              <Tabs defaultValue="trace">
+                <TabsList>
+                  <TabsTrigger value="trace">Stack Trace</TabsTrigger>
+                  <TabsTrigger value="results">Results</TabsTrigger>
+                </TabsList>
+                <TabsContent value="trace">
+                  {/* Show stack trace viewer with analysis results integrated */}
+                  <StackTraceViewer
+                    stackTrace={stackTrace}
+                    results={results}
+                    frameRules={frameRules}
+                    isLoading={isLoading}
+                    onOverride={isLoading ? undefined : handleOverride}
+                    reanalyzing={reanalyzing}
+                  />
+                </TabsContent>
+                <TabsContent value="results">
+                  <AnalysisResults
+                    results={results}
+                    exception={exception}
+                    summary={summary}
+                    onOverride={isLoading ? undefined : handleOverride}
+                    reanalyzing={reanalyzing}
+                  />
+                </TabsContent>
+              </Tabs>
             </div>
           )}
         </div>
       </div>
+
+      <RepositorySettings
+        open={showSettings}
+        onOpenChange={setShowSettings}
+        config={repositoryConfig}
+        onSaved={setRepositoryConfig}
+      />
     </div>
   )
 }
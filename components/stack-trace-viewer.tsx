@@ -4,7 +4,14 @@ import { useState } from "react"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { ChevronDown, ExternalLink, AlertCircle, CheckCircle } from "lucide-react"
+import { Spinner } from "@/components/ui/spinner"
+import { ChevronDown, ChevronRight, ExternalLink, AlertCircle, CheckCircle, Filter, FileDiff } from "lucide-react"
+import { parseExceptionChain, flattenExceptions, parseStackTraceLine, getEntryKey } from "@/lib/stack-trace-parser"
+import { describeFrameRule, type FrameRule } from "@/lib/frame-filter"
+import { FrameCandidates, type FrameOverride } from "./frame-candidates"
+import { MethodHistory } from "./method-history"
+import { SourceBlame } from "./source-blame"
+import { CommitDiff } from "./commit-diff"
 
 interface GitBlameAnalysis {
   commitHash: string
@@ -18,19 +25,70 @@ interface GitBlameAnalysis {
 }
 
 interface AnalysisResult {
+  exceptionId: string
   namespace: string
   methodName: string
+  compilerGenerated?: "state-machine" | "lambda" | "local-function"
+  localFunction?: string
+  nestedType?: string
+  memberKind?: "constructor" | "static-constructor" | "getter" | "setter" | "operator"
+  explicitInterface?: string
+  repository?: string
+  // Commit the file was read and blamed at, when the analysis ran against a revision
+  commit?: string
+  resolution?: "recorded-path" | "path-mapping" | "auto-detected" | "declaration" | "name-search" | "manual"
   filePath: string
+  relativePath?: string
+  partialFiles?: string[]
+  inheritanceChain?: string[]
   fileFound: boolean
   lineRange: { start: number; end: number } | null
   methodFound: boolean
+  manualLineRange?: boolean
+  overloadCount?: number
+  overloadConfidence?: number
+  crashLine?: number
+  blameRange?: { start: number; end: number }
+  hints?: Array<{ line: number; expression: string; message: string }>
+  candidates?: Array<{
+    kind: "declaration" | "file-name" | "similar"
+    repository: string
+    relativePath: string
+    typeName?: string
+    line?: number
+    score: number
+  }>
   gitBlameResults: GitBlameAnalysis[]
+  sourceLines?: Array<{
+    lineNumber: number
+    commitHash: string
+    author: string
+    date: string
+    commitMessage: string
+    content: string
+    inDateRange: boolean
+  }>
+  methodHistory?: Array<{
+    commitHash: string
+    author: string
+    commitDate: string
+    commitMessage: string
+    prNumber?: string
+    prUrl?: string
+    prSource?: "github" | "azure"
+    diff: string
+  }>
   error?: string
 }
 
 interface Props {
   stackTrace: string
   results: AnalysisResult[]
+  frameRules?: FrameRule[]
+  isLoading?: boolean
+  // Re-run one frame against a picked file or line range; key of the frame being re-run
+  onOverride?: (result: AnalysisResult, override: FrameOverride) => void
+  reanalyzing?: string | null
 }
 
 /**
@@ -46,158 +104,414 @@ function extractAzureDevOpsPRUrl(prNumber: string | undefined, commitMessage: st
   return undefined
 }
 
-export function StackTraceViewer({ stackTrace, results }: Props) {
-  const [expandedLine, setExpandedLine] = useState<number | null>(null)
+/**
+ * Render a trace line with its ":line N" suffix highlighted
+ */
+function renderTraceLine(line: string) {
+  const match = line.match(/^(.*)(:line\s+\d+)\s*$/)
+  if (!match) {
+    return line
+  }
 
-  // Parse stack trace lines
-  const lines = stackTrace.split("\n").filter((line) => line.trim().startsWith("at"))
+  return (
+    <>
+      {match[1]}
+      <span className="px-1 rounded bg-destructive/15 text-destructive font-semibold">{match[2]}</span>
+    </>
+  )
+}
 
-  // Create a map for quick result lookup
+/**
+ * Describe the source member behind a special or compiler-generated frame
+ */
+function describeGeneratedFrame(result: AnalysisResult): string | undefined {
+  const type = result.nestedType ? `${result.namespace}+${result.nestedType}` : result.namespace
+  const parts: string[] = []
+
+  switch (result.memberKind) {
+    case "constructor":
+      parts.push(`constructor of ${type}`)
+      break
+    case "static-constructor":
+      parts.push(`static constructor of ${type}`)
+      break
+    case "getter":
+    case "setter":
+      parts.push(`${result.memberKind} of ${result.methodName === "Item" ? "indexer" : `property ${result.methodName}`}`)
+      break
+    case "operator":
+      parts.push(`operator ${result.methodName}`)
+      break
+  }
+
+  switch (result.compilerGenerated) {
+    case "state-machine":
+      parts.push(`async/iterator state machine of ${result.methodName}`)
+      break
+    case "lambda":
+      parts.push(`lambda in ${result.methodName}`)
+      break
+    case "local-function":
+      parts.push(`local function ${result.localFunction} in ${result.methodName}`)
+      break
+  }
+
+  if (result.explicitInterface) {
+    parts.push(`explicit implementation of ${result.explicitInterface}`)
+  }
+  if (result.nestedType && !result.memberKind) {
+    parts.push(`in nested type ${type}`)
+  }
+
+  return parts.length > 0 ? parts.join(", ") : undefined
+}
+
+export function StackTraceViewer({
+  stackTrace,
+  results,
+  frameRules,
+  isLoading = false,
+  onOverride,
+  reanalyzing,
+}: Props) {
+  const [expandedLine, setExpandedLine] = useState<string | null>(null)
+  const [openDiff, setOpenDiff] = useState<string | null>(null)
+  const [collapsedExceptions, setCollapsedExceptions] = useState<Set<string>>(new Set())
+
+  // Parse the exception chain; each exception lists its own "at" lines
+  const exceptions = flattenExceptions(parseExceptionChain(stackTrace, frameRules))
+  const isChain = exceptions.length > 1
+
+  // Create a map for quick result lookup, per exception
   const resultMap = new Map<string, AnalysisResult>()
   results.forEach((r) => {
-    resultMap.set(`${r.namespace}.${r.methodName}`, r)
+    resultMap.set(`${r.exceptionId}:${getEntryKey(r)}`, r)
   })
 
+  const toggleException = (id: string) => {
+    const next = new Set(collapsedExceptions)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setCollapsedExceptions(next)
+  }
+
   return (
     <Card className="border border-border bg-card/50 backdrop-blur-sm overflow-hidden">
       <div className="p-4 space-y-1">
-        {lines.map((line, idx) => {
-          // Extract namespace and method from line
-          const match = line.match(/at\s+([\w.]+)\.(\w+)\(/)
-          const namespace = match ? match[1] : ""
-          const methodName = match ? match[2] : ""
-          const key = `${namespace}.${methodName}`
-          const result = resultMap.get(key)
-          const isExpanded = expandedLine === idx
-          const hasChanges = result?.gitBlameResults.some((g) => g.inDateRange) ?? false
+        {exceptions.map((exception) => {
+          const depth = exception.id.split(".").length - 1
+          const isCollapsed = collapsedExceptions.has(exception.id)
 
           return (
-            <div key={idx} className="overflow-hidden">
-              <button
-                onClick={() => setExpandedLine(isExpanded ? null : idx)}
-                className={`w-full text-left p-3 rounded transition-colors ${
-                  result
-                    ? hasChanges
-                      ? "hover:bg-chart-1/10 bg-chart-1/5"
-                      : "hover:bg-muted/5"
-                    : "hover:bg-muted/3 opacity-75"
-                }`}
-              >
-                <div className="flex items-start gap-2 justify-between">
-                  <div className="flex-1 min-w-0 overflow-hidden">
-                    <div className="flex items-start gap-2 flex-wrap">
-                      <div className="flex-shrink-0 pt-0.5">
-                        {!result ? (
-                          <AlertCircle className="w-4 h-4 text-muted-foreground" />
-                        ) : result.fileFound && result.methodFound ? (
-                          <CheckCircle className="w-4 h-4 text-chart-1" />
-                        ) : (
-                          <AlertCircle className="w-4 h-4 text-amber-500" />
+            <div key={exception.id} className="space-y-1" style={{ paddingLeft: `${depth * 16}px` }}>
+              {exception.type && (
+                <button
+                  onClick={() => toggleException(exception.id)}
+                  className={`w-full text-left p-3 rounded border transition-colors ${
+                    isChain && exception.isRootCause
+                      ? "border-destructive/40 bg-destructive/5 hover:bg-destructive/10"
+                      : "border-border/50 hover:bg-muted/5"
+                  }`}
+                >
+                  <div className="flex items-start gap-2">
+                    {isCollapsed ? (
+                      <ChevronRight className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+                    ) : (
+                      <ChevronDown className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <code className="text-xs font-mono font-semibold text-foreground break-all">
+                          {depth > 0 && "---> "}
+                          {exception.type}
+                        </code>
+                        {isChain && exception.isRootCause && (
+                          <Badge variant="destructive" className="text-xs flex-shrink-0">
+                            Root cause
+                          </Badge>
                         )}
                       </div>
-                      <code className="text-xs font-mono text-foreground break-all leading-relaxed flex-1">
-                        {line.trim()}
-                      </code>
-                      {result && hasChanges && (
-                        <Badge 
-                          variant="default" 
-                          className="text-xs bg-chart-1/90 hover:bg-chart-1 flex-shrink-0 mt-0.5"
-                        >
-                          {result.gitBlameResults.filter((g) => g.inDateRange).length} changes
-                        </Badge>
+                      {exception.message && (
+                        <p className="text-xs text-muted-foreground whitespace-pre-wrap break-all mt-1">
+                          {exception.message}
+                        </p>
                       )}
                     </div>
                   </div>
-                  {result && result.gitBlameResults.length > 0 && (
-                    <ChevronDown
-                      className={`w-4 h-4 text-muted-foreground flex-shrink-0 transition-transform mt-0.5 ${
-                        isExpanded ? "rotate-180" : ""
-                      }`}
-                    />
-                  )}
-                </div>
-              </button>
-
-              {/* Expanded Details */}
-              {isExpanded && result && (
-                <div className="px-3 pb-3 space-y-2 bg-muted/20 rounded-b">
-                  {!result.fileFound && (
-                    <div className="p-2 rounded bg-amber-500/10 border border-amber-500/30 text-xs text-amber-700">
-                      File not found. Please manually verify in codebase.
-                    </div>
-                  )}
+                </button>
+              )}
 
-                  {result.fileFound && !result.methodFound && (
-                    <div className="p-2 rounded bg-amber-500/10 border border-amber-500/30 text-xs text-amber-700">
-                      Method not found. May be defined in interface or base class.
-                    </div>
-                  )}
-
-                  {result.fileFound && (
-                    <p className="text-xs text-muted-foreground break-all">
-                      <span className="font-mono">File:</span> {result.filePath}
-                    </p>
-                  )}
-
-                  {result.lineRange && (
-                    <p className="text-xs text-muted-foreground">
-                      <span className="font-mono">Lines:</span> {result.lineRange.start}-{result.lineRange.end}
-                    </p>
-                  )}
-
-                  {result.gitBlameResults.length > 0 ? (
-                    <div className="space-y-1 pt-2 border-t border-border/50">
-                      {result.gitBlameResults.map((blame, bidx) => {
-                        const azureUrl = extractAzureDevOpsPRUrl(blame.prNumber, blame.commitMessage)
-                        const prUrl = blame.prUrl || azureUrl
-                        const prSource = blame.prUrl ? "GitHub" : azureUrl ? "Azure DevOps" : undefined
-
-                        return (
-                          <div
-                            key={bidx}
-                            className={`p-2 rounded text-xs transition-colors ${
-                              blame.inDateRange
-                                ? "border border-chart-1/40 bg-chart-1/10"
-                                : "border border-border/30 bg-muted/10"
-                            }`}
-                          >
-                            <div className="flex items-center justify-between gap-2 mb-1">
-                              <div className="flex items-center gap-1 min-w-0 flex-1 flex-wrap">
-                                <code className="text-foreground/70 font-mono">{blame.commitHash.slice(0, 8)}</code>
-                                <span className="text-foreground/60 truncate">{blame.author}</span>
-                                <span className="text-foreground/50 flex-shrink-0">
-                                  {new Date(blame.commitDate).toLocaleDateString()}
-                                </span>
+              {!isCollapsed &&
+                exception.lines.map((line, idx) => {
+                  // Extract namespace and method from line, demangling compiler-generated names
+                  const entry = parseStackTraceLine(line)
+                  const key = entry ? `${exception.id}:${getEntryKey(entry)}` : ""
+                  const lineKey = `${exception.id}:${idx}`
+                  const filtered = exception.filteredFrames.find((f) => f.lineIndex === idx)
+                  const result = resultMap.get(key)
+
+                  if (filtered) {
+                    return (
+                      <div key={lineKey} className="p-3 rounded opacity-60">
+                        <div className="flex items-start gap-2 flex-wrap">
+                          <Filter className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+                          <code className="text-xs font-mono text-muted-foreground break-all leading-relaxed flex-1">
+                            {renderTraceLine(line)}
+                          </code>
+                          <Badge variant="outline" className="text-xs flex-shrink-0 font-mono">
+                            {describeFrameRule(filtered.rule)}
+                          </Badge>
+                        </div>
+                      </div>
+                    )
+                  }
+                  const isExpanded = expandedLine === lineKey
+                  const hasChanges = result?.gitBlameResults.some((g) => g.inDateRange) ?? false
+
+                  return (
+                    <div key={lineKey} className="overflow-hidden">
+                      <button
+                        onClick={() => setExpandedLine(isExpanded ? null : lineKey)}
+                        className={`w-full text-left p-3 rounded transition-colors ${
+                          result
+                            ? hasChanges
+                              ? "hover:bg-chart-1/10 bg-chart-1/5"
+                              : "hover:bg-muted/5"
+                            : "hover:bg-muted/3 opacity-75"
+                        }`}
+                      >
+                        <div className="flex items-start gap-2 justify-between">
+                          <div className="flex-1 min-w-0 overflow-hidden">
+                            <div className="flex items-start gap-2 flex-wrap">
+                              <div className="flex-shrink-0 pt-0.5">
+                                {!result && isLoading ? (
+                                  <Spinner className="w-4 h-4 text-muted-foreground" />
+                                ) : !result ? (
+                                  <AlertCircle className="w-4 h-4 text-muted-foreground" />
+                                ) : result.fileFound && result.methodFound ? (
+                                  <CheckCircle className="w-4 h-4 text-chart-1" />
+                                ) : (
+                                  <AlertCircle className="w-4 h-4 text-amber-500" />
+                                )}
                               </div>
-                              {blame.inDateRange && (
-                                <Badge
-                                  variant="outline"
-                                  className="text-xs flex-shrink-0 border-chart-1/50 text-chart-1"
+                              <code className="text-xs font-mono text-foreground break-all leading-relaxed flex-1">
+                                {renderTraceLine(line)}
+                              </code>
+                              {result && hasChanges && (
+                                <Badge 
+                                  variant="default" 
+                                  className="text-xs bg-chart-1/90 hover:bg-chart-1 flex-shrink-0 mt-0.5"
                                 >
-                                  In Range
+                                  {result.gitBlameResults.filter((g) => g.inDateRange).length} changes
                                 </Badge>
                               )}
                             </div>
-                            <p className="text-foreground/80 mb-2 break-all">{blame.commitMessage}</p>
-                            <div className="flex items-center justify-between flex-wrap gap-2">
-                              {prUrl && (
-                                <Button asChild variant="outline" size="sm" className="text-xs h-6 bg-transparent">
-                                  <a href={prUrl} target="_blank" rel="noopener noreferrer">
-                                    {"PR"} #{blame.prNumber}
-                                    <ExternalLink className="w-3 h-3 ml-1" />
-                                  </a>
-                                </Button>
+                          </div>
+                          {result && (result.gitBlameResults.length > 0 || result.sourceLines || result.methodHistory) && (
+                            <ChevronDown
+                              className={`w-4 h-4 text-muted-foreground flex-shrink-0 transition-transform mt-0.5 ${
+                                isExpanded ? "rotate-180" : ""
+                              }`}
+                            />
+                          )}
+                        </div>
+                      </button>
+
+                      {/* Expanded Details */}
+                      {isExpanded && result && (
+                        <div className="px-3 pb-3 space-y-2 bg-muted/20 rounded-b">
+                          {!result.fileFound && (
+                            <div className="p-2 rounded bg-amber-500/10 border border-amber-500/30 text-xs text-amber-700">
+                              File not found. Please manually verify in codebase.
+                            </div>
+                          )}
+
+                          {(result.candidates || result.relativePath) && (
+                            <FrameCandidates
+                              candidates={result.candidates}
+                              currentFile={
+                                result.repository && result.relativePath
+                                  ? { repository: result.repository, relativePath: result.relativePath }
+                                  : undefined
+                              }
+                              onOverride={onOverride && ((override) => onOverride(result, override))}
+                              busy={reanalyzing === key}
+                            />
+                          )}
+
+                          {result.fileFound && !result.methodFound && (
+                            <div className="p-2 rounded bg-amber-500/10 border border-amber-500/30 text-xs text-amber-700">
+                              {result.crashLine
+                                ? "Method not found. Showing blame for the crash line recorded in the trace."
+                                : "Method not found in the file or in base types declared in the repository."}
+                            </div>
+                          )}
+
+                          {describeGeneratedFrame(result) && (
+                            <p className="text-xs text-muted-foreground">
+                              <span className="font-mono">Frame:</span> {describeGeneratedFrame(result)}
+                            </p>
+                          )}
+
+                          {result.fileFound && (
+                            <p className="text-xs text-muted-foreground break-all">
+                              <span className="font-mono">File:</span> {result.filePath}
+                              {result.partialFiles && <span> (1 of {result.partialFiles.length} partial files)</span>}
+                            </p>
+                          )}
+
+                          {result.inheritanceChain && (
+                            <p className="text-xs text-muted-foreground break-all">
+                              <span className="font-mono">Inherited:</span>{" "}
+                              {result.inheritanceChain.map((type) => type.split(".").pop()).join(" → ")}.{result.methodName}
+                            </p>
+                          )}
+
+                          {result.repository && (
+                            <p className="text-xs text-muted-foreground">
+                              <span className="font-mono">Repository:</span> {result.repository}
+                              {result.commit && <span className="font-mono"> @ {result.commit.slice(0, 8)}</span>}
+                              {result.resolution === "manual" ? (
+                                <span> (picked manually)</span>
+                              ) : (
+                                result.resolution && <span> (matched by {result.resolution.replace("-", " ")})</span>
+                              )}
+                            </p>
+                          )}
+
+                          {result.lineRange && (
+                            <p className="text-xs text-muted-foreground">
+                              <span className="font-mono">Lines:</span> {result.lineRange.start}-{result.lineRange.end}
+                              {result.manualLineRange && <span> (entered manually)</span>}
+                              {result.overloadConfidence !== undefined && result.overloadConfidence < 1 && (
+                                <span className="text-amber-700">
+                                  {" "}
+                                  (1 of {result.overloadCount} overloads, confidence{" "}
+                                  {Math.round(result.overloadConfidence * 100)}%)
+                                </span>
                               )}
+                            </p>
+                          )}
+
+                          {result.crashLine && (
+                            <p className="text-xs text-muted-foreground">
+                              <span className="font-mono">Crash line:</span>{" "}
+                              <span className="px-1 rounded bg-destructive/15 text-destructive font-semibold">
+                                {result.crashLine}
+                              </span>
+                              {result.blameRange && (
+                                <span>
+                                  {" "}
+                                  (blamed lines {result.blameRange.start}-{result.blameRange.end})
+                                </span>
+                              )}
+                            </p>
+                          )}
+
+                          {result.sourceLines && (
+                            <div className="pt-2 border-t border-border/50">
+                              <SourceBlame lines={result.sourceLines} crashLine={result.crashLine} />
                             </div>
-                          </div>
-                        )
-                      })}
+                          )}
+
+                          {result.methodHistory && (
+                            <div className="pt-2 border-t border-border/50">
+                              <MethodHistory commits={result.methodHistory} />
+                            </div>
+                          )}
+
+                          {result.hints && result.hints.length > 0 && (
+                            <div className="p-2 rounded bg-amber-500/10 border border-amber-500/30 text-xs text-amber-700 space-y-1">
+                              {result.hints.map((hint, hidx) => (
+                                <p key={hidx} className="break-all">
+                                  Line {hint.line}: <code className="font-mono">{hint.expression}</code> - {hint.message}
+                                </p>
+                              ))}
+                            </div>
+                          )}
+
+                          {result.gitBlameResults.length > 0 ? (
+                            <div className="space-y-1 pt-2 border-t border-border/50">
+                              {result.gitBlameResults.map((blame, bidx) => {
+                                const azureUrl = extractAzureDevOpsPRUrl(blame.prNumber, blame.commitMessage)
+                                const prUrl = blame.prUrl || azureUrl
+                                const prSource = blame.prUrl ? "GitHub" : azureUrl ? "Azure DevOps" : undefined
+                                const diffKey = `${lineKey}:${blame.commitHash}`
+
+                                return (
+                                  <div
+                                    key={bidx}
+                                    className={`p-2 rounded text-xs transition-colors ${
+                                      blame.inDateRange
+                                        ? "border border-chart-1/40 bg-chart-1/10"
+                                        : "border border-border/30 bg-muted/10"
+                                    }`}
+                                  >
+                                    <div className="flex items-center justify-between gap-2 mb-1">
+                                      <div className="flex items-center gap-1 min-w-0 flex-1 flex-wrap">
+                                        <code className="text-foreground/70 font-mono">{blame.commitHash.slice(0, 8)}</code>
+                                        <span className="text-foreground/60 truncate">{blame.author}</span>
+                                        <span className="text-foreground/50 flex-shrink-0">
+                                          {new Date(blame.commitDate).toLocaleDateString()}
+                                        </span>
+                                      </div>
+                                      {blame.inDateRange && (
+                                        <Badge
+                                          variant="outline"
+                                          className="text-xs flex-shrink-0 border-chart-1/50 text-chart-1"
+                                        >
+                                          In Range
+                                        </Badge>
+                                      )}
+                                    </div>
+                                    <p className="text-foreground/80 mb-2 break-all">{blame.commitMessage}</p>
+                                    <div className="flex items-center justify-between flex-wrap gap-2">
+                                      {prUrl && (
+                                        <Button asChild variant="outline" size="sm" className="text-xs h-6 bg-transparent">
+                                          <a href={prUrl} target="_blank" rel="noopener noreferrer">
+                                            {"PR"} #{blame.prNumber}
+                                            <ExternalLink className="w-3 h-3 ml-1" />
+                                          </a>
+                                        </Button>
+                                      )}
+                                      {result.repository && result.relativePath && (
+                                        <Button
+                                          variant="outline"
+                                          size="sm"
+                                          className="text-xs h-6 bg-transparent"
+                                          onClick={() => setOpenDiff(openDiff === diffKey ? null : diffKey)}
+                                        >
+                                          <FileDiff className="w-3 h-3 mr-1" />
+                                          {openDiff === diffKey ? "Hide diff" : "Show diff"}
+                                        </Button>
+                                      )}
+                                    </div>
+                                    {result.repository && result.relativePath && openDiff === diffKey && (
+                                      <div className="mt-2">
+                                        <CommitDiff
+                                          repository={result.repository}
+                                          commit={blame.commitHash}
+                                          relativePath={result.relativePath}
+                                          lineRange={result.lineRange ?? result.blameRange}
+                                          at={result.commit}
+                                        />
+                                      </div>
+                                    )}
+                                  </div>
+                                )
+                              })}
+                            </div>
+                          ) : (
+                            <p className="text-xs text-muted-foreground pt-2">No git blame results found.</p>
+                          )}
+                        </div>
+                      )}
                     </div>
-                  ) : (
-                    <p className="text-xs text-muted-foreground pt-2">No git blame results found.</p>
-                  )}
-                </div>
-              )}
+                  )
+                })}
             </div>
           )
         })}
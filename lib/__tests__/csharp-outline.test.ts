@@ -0,0 +1,110 @@
+import * as fs from "fs"
+import * as path from "path"
+import { describe, expect, it } from "vitest"
+import { buildOutline, walkOutline } from "../csharp-outline"
+import { findMethodLineRange } from "../file-finder"
+import { parseStackTraceLine } from "../stack-trace-parser"
+
+const fixture = (name: string) => path.join(__dirname, "fixtures", name)
+
+/**
+ * Members of a fixture's outline as "kind name start-end", indented by nesting; namespaces and usings are left out
+ */
+function members(name: string): string[] {
+  const lines: string[] = []
+  walkOutline(buildOutline(fs.readFileSync(fixture(name), "utf-8")), (node, parents) => {
+    if (node.kind !== "namespace" && node.kind !== "using") {
+      const depth = parents.filter((parent) => parent.kind !== "namespace").length
+      lines.push(`${"  ".repeat(depth)}${node.kind} ${node.name} ${node.startLine}-${node.endLine}`)
+    }
+  })
+  return lines
+}
+
+describe("buildOutline fixtures", () => {
+  it("ignores braces in raw, interpolated, verbatim and char literals and in comments", () => {
+    expect(members("Strings.cs")).toEqual([
+      "type Templates 3-42",
+      "  method Raw 5-11",
+      "  method RawInterpolated 13-18",
+      "  method Interpolated 20-20",
+      "  method Verbatim 22-27",
+      "  method VerbatimInterpolated 29-32",
+      "  method Brace 34-34",
+      "  method Comments 36-41",
+    ])
+  })
+
+  it("keeps the first branch of preprocessor conditionals and skips regions", () => {
+    expect(members("Preprocessor.cs")).toEqual([
+      "type Settings 3-40",
+      "  method Load 6-14",
+      "  method Log 17-26",
+      "  property Version 30-30",
+      "  method Save 37-39",
+    ])
+  })
+
+  it("nests local functions, including generic, constrained and expression-bodied ones", () => {
+    expect(members("LocalFunctions.cs")).toEqual([
+      "type Calculator 5-44",
+      "  method Sum 7-17",
+      "    local-function Square 16-16",
+      "  method FetchAsync 19-33",
+      "    local-function Inner 23-32",
+      "      local-function Twice 28-31",
+      "  method Run 35-43",
+      "    local-function Log 37-40",
+    ])
+  })
+
+  it("spans expression-bodied members, records with primary constructors and generic constraints", () => {
+    expect(members("Members.cs")).toEqual([
+      "type Point 3-9",
+      "  property Length 5-5",
+      "  method Scale 7-8",
+      "type Size 11-11",
+      "type Order 13-16",
+      "  property IsLarge 15-15",
+      "type Repository 18-49",
+      "  constructor Repository 24-24",
+      "  indexer this 26-30",
+      "    accessor get 28-28",
+      "    accessor set 29-29",
+      "  method Map 32-36",
+      "  property Count 38-44",
+      "    accessor get 40-43",
+      "  operator operator + 46-46",
+      "  destructor Repository 48-48",
+      "type Tuples 51-77",
+      "  method Pair 53-56",
+      "  method LoadAsync 58-62",
+      "  method Map 64-64",
+      "  method Ranges 66-66",
+      "  operator operator < 68-68",
+      "  operator operator > 70-70",
+      "  method Where 72-76",
+    ])
+  })
+
+  it("reads the parameter list after tuple return types, not the tuple", () => {
+    const tuples = buildOutline(fs.readFileSync(fixture("Members.cs"), "utf-8"))[0].children.find(
+      (node) => node.name === "Tuples",
+    )
+    expect(tuples?.children.map((node) => node.parameters)).toEqual([
+      ["int[] values", "string name"],
+      ["int id"],
+      ["string key"],
+      [],
+      ["Tuples left", "Tuples right"],
+      ["Tuples left", "Tuples right"],
+      ["Func<(T Item, int Index), bool> predicate"],
+    ])
+  })
+
+  it("locates a record's primary constructor at the record declaration", async () => {
+    const entry = parseStackTraceLine("at Fixtures.Members.Point..ctor(Int32 X, Int32 Y)")
+    expect(entry).not.toBeNull()
+    expect(await findMethodLineRange(fixture("Members.cs"), entry!)).toMatchObject({ start: 3, end: 9 })
+  })
+})
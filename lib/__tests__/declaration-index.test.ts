@@ -0,0 +1,41 @@
+import { execFileSync } from "child_process"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterAll, describe, expect, it } from "vitest"
+import { findTypeDeclarations } from "../declaration-index"
+import { loadRepositoryIndex } from "../file-finder"
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "declaration-index-"))
+const indexDir = path.join(root, ".index")
+process.env.STACKTRACE_ANALYZER_INDEX_DIR = indexDir
+
+const git = (...args: string[]) =>
+  execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], { cwd: root })
+    .toString()
+    .trim()
+
+git("init", "-q")
+const commits: string[] = []
+for (let i = 0; i < 10; i++) {
+  fs.writeFileSync(path.join(root, "Order.cs"), `namespace Ns { public class Order${i} { } }\n`)
+  git("add", "Order.cs")
+  git("commit", "-q", "-m", `Order ${i}`)
+  commits.push(git("rev-parse", "HEAD"))
+}
+
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }))
+
+describe("loadRepositoryIndex at commits", () => {
+  it("indexes each commit and keeps only the most recently used commit indexes on disk", async () => {
+    for (const [i, commit] of commits.entries()) {
+      const index = await loadRepositoryIndex(root, commit)
+      expect(findTypeDeclarations(index, `Ns.Order${i}`)).toHaveLength(1)
+    }
+
+    const stored = fs.readdirSync(indexDir)
+    expect(stored).toHaveLength(8)
+    expect(stored.some((name) => name.includes(commits[9]))).toBe(true)
+    expect(stored.some((name) => name.includes(commits[0]))).toBe(false)
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest"
+import { flattenExceptions, parseExceptionChain } from "../stack-trace-parser"
+
+const methods = (exception: { frames: { namespace: string; methodName: string }[] }) =>
+  exception.frames.map((frame) => `${frame.namespace}.${frame.methodName}`)
+
+// AggregateException.ToString() from .NET 8 for Task.WaitAll over three failing tasks
+const AGGREGATE = String.raw`System.AggregateException: One or more errors occurred. (First failure) (Second failure) (Object reference not set to an instance of an object.)
+ ---> System.InvalidOperationException: First failure
+   at Demo.Worker.Fail1() in C:\src\Demo\Worker.cs:line 10
+   at System.Threading.Tasks.Task.InnerInvoke()
+   at System.Threading.ExecutionContext.RunFromThreadPoolDispatchLoop(Thread threadPoolThread, ExecutionContext executionContext, ContextCallback callback, Object state)
+   --- End of inner exception stack trace ---
+   at System.Threading.Tasks.Task.WaitAllCore(ReadOnlySpan${"`"}1 tasks, Int32 millisecondsTimeout, CancellationToken cancellationToken)
+   at System.Threading.Tasks.Task.WaitAll(Task[] tasks)
+   at Demo.Program.Main() in C:\src\Demo\Program.cs:line 14
+ ---> (Inner Exception #1) System.ArgumentException: Second failure
+   at Demo.Worker.Fail2() in C:\src\Demo\Worker.cs:line 22
+   at System.Threading.Tasks.Task.InnerInvoke()
+   at Demo.Worker.Run() in C:\src\Demo\Worker.cs:line 30<---
+
+ ---> (Inner Exception #2) System.NullReferenceException: Object reference not set to an instance of an object.
+   at Demo.Worker.Fail3() in C:\src\Demo\Worker.cs:line 40<---
+`
+
+describe("parseExceptionChain", () => {
+  it("keeps the last frame of each AggregateException inner block and returns to the aggregate", () => {
+    const root = parseExceptionChain(AGGREGATE)
+
+    expect(root.type).toBe("System.AggregateException")
+    expect(methods(root)).toEqual(["Demo.Program.Main"])
+    expect(root.innerExceptions.map((e) => e.type)).toEqual([
+      "System.InvalidOperationException",
+      "System.ArgumentException",
+      "System.NullReferenceException",
+    ])
+    expect(root.innerExceptions.map(methods)).toEqual([
+      ["Demo.Worker.Fail1"],
+      ["Demo.Worker.Fail2", "Demo.Worker.Run"],
+      ["Demo.Worker.Fail3"],
+    ])
+    expect(root.innerExceptions[1].frames[1].lineNumber).toBe(30)
+    expect(flattenExceptions(root).map((e) => e.id)).toEqual(["0", "0.0", "0.1", "0.2"])
+  })
+
+  it("closes blocks of inner exceptions without frames and nested aggregates ending on one line", () => {
+    const root = parseExceptionChain(String.raw`System.AggregateException: Outer (Inner) (Empty)
+ ---> System.AggregateException: Inner (A) (B)
+ ---> System.InvalidOperationException: A
+   at Demo.A.Run() in C:\src\A.cs:line 1
+   --- End of inner exception stack trace ---
+   at Demo.Inner.Wait() in C:\src\Inner.cs:line 2
+ ---> (Inner Exception #1) System.ArgumentException: B
+   at Demo.B.Run() in C:\src\B.cs:line 3<---
+
+   --- End of inner exception stack trace ---
+   at Demo.Outer.Wait() in C:\src\Outer.cs:line 4
+ ---> (Inner Exception #1) System.TimeoutException: Empty<---
+`)
+
+    expect(methods(root)).toEqual(["Demo.Outer.Wait"])
+    const [inner, empty] = root.innerExceptions
+    expect(inner.type).toBe("System.AggregateException")
+    expect(methods(inner)).toEqual(["Demo.Inner.Wait"])
+    expect(inner.innerExceptions.map(methods)).toEqual([["Demo.A.Run"], ["Demo.B.Run"]])
+    expect(empty.type).toBe("System.TimeoutException")
+    expect(empty.frames).toEqual([])
+    expect(root.innerExceptions).toHaveLength(2)
+  })
+})
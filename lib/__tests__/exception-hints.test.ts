@@ -0,0 +1,44 @@
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterAll, describe, expect, it } from "vitest"
+import { findExceptionHints } from "../exception-hints"
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "exception-hints-"))
+const filePath = path.join(dir, "Loader.cs")
+fs.writeFileSync(
+  filePath,
+  `using System.IO;
+using Json = Newtonsoft.Json;
+
+namespace Acme.Orders
+{
+    class Loader
+    {
+        void Load(string path)
+        {
+            var text = System.IO.File.ReadAllText(path).Trim() + Json.JsonConvert.SerializeObject(order.Lines);
+            var name = map["customer.name"] + lookup[key].Name + Acme.Orders.Loader.Default.Value; // map[x].y
+            var items = Loader.Create().Items;
+        }
+    }
+}
+`,
+)
+
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+const expressions = async (exceptionType: string, line: number) =>
+  (await findExceptionHints(exceptionType, filePath, { start: line, end: line })).map((hint) => hint.expression)
+
+describe("findExceptionHints", () => {
+  it("skips static accesses through namespaces, aliases and types of the file", async () => {
+    expect(await expressions("NullReferenceException", 10)).toEqual(["ReadAllText(path).Trim", "order.Lines"])
+    expect(await expressions("NullReferenceException", 11)).toEqual(["lookup[key].Name", "Default.Value"])
+    expect(await expressions("NullReferenceException", 12)).toEqual(["Create().Items"])
+  })
+
+  it("reports indexers as written, after string literals that contain dots", async () => {
+    expect(await expressions("KeyNotFoundException", 11)).toEqual(['map["customer.name"]', "lookup[key]"])
+  })
+})
@@ -0,0 +1,82 @@
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterAll, describe, expect, it } from "vitest"
+import { splitDeclaredInterface } from "../file-finder"
+import { getEntryKey, parseStackTraceLine } from "../stack-trace-parser"
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "explicit-interface-"))
+process.env.STACKTRACE_ANALYZER_INDEX_DIR = path.join(root, ".index")
+fs.writeFileSync(
+  path.join(root, "Foo.cs"),
+  `namespace Ns
+{
+    public class Foo : MyCompany.IBar
+    {
+        void MyCompany.IBar.Baz() { }
+    }
+}
+
+namespace MyCompany
+{
+    public interface IBar
+    {
+        void Baz();
+    }
+}
+
+namespace Acme.Web.System
+{
+    public static class IOHelper
+    {
+        public static void Read() { }
+    }
+}
+`,
+)
+
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }))
+
+const parse = (line: string) => {
+  const entry = parseStackTraceLine(line)
+  if (!entry) {
+    throw new Error(`Not a frame: ${line}`)
+  }
+  return entry
+}
+
+describe("splitDeclaredInterface", () => {
+  it("splits interfaces from another root namespace at the declared type", async () => {
+    const entry = parse("at Ns.Foo.MyCompany.IBar.Baz()")
+    expect(entry.explicitInterface).toBeUndefined()
+
+    const split = await splitDeclaredInterface(entry, root)
+    expect(split).toEqual({ namespace: "Ns.Foo", nestedType: undefined, explicitInterface: "MyCompany.IBar" })
+    expect(getEntryKey({ ...entry, ...split })).toBe(getEntryKey(entry))
+  })
+
+  it("keeps declared types whose name starts with I and a capital letter", async () => {
+    const entry = parse("at Acme.Web.System.IOHelper.Read()")
+    expect(entry.explicitInterface).toBe("System.IOHelper")
+
+    const split = await splitDeclaredInterface(entry, root)
+    expect(split).toEqual({
+      namespace: "Acme.Web.System.IOHelper",
+      nestedType: undefined,
+      explicitInterface: undefined,
+    })
+    expect(getEntryKey({ ...entry, ...split })).toBe(getEntryKey(entry))
+  })
+
+  it("leaves names without an I-prefixed last segment alone", async () => {
+    expect(await splitDeclaredInterface(parse("at Ns.Foo.Run()"), root)).toBeNull()
+  })
+})
+
+describe("parseStackTraceLine", () => {
+  it("accepts backticks only as generic arity", () => {
+    expect(parse("at Ns.Repo`1.Save(Order order)").namespace).toBe("Ns.Repo")
+    expect(parseStackTraceLine("at Ns.$(touch x).Run()")).toBeNull()
+    expect(parseStackTraceLine("at Ns.Repo`x`.Save()")).toBeNull()
+  })
+})
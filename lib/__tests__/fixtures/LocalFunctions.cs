@@ -0,0 +1,45 @@
+using System.Collections.Generic;
+
+namespace Fixtures.LocalFunctions
+{
+    public class Calculator
+    {
+        public int Sum(IEnumerable<int> values)
+        {
+            var total = 0;
+            foreach (var value in values)
+            {
+                total += Square(value);
+            }
+            return total;
+
+            static int Square(int x) => x * x;
+        }
+
+        public async Task<int> FetchAsync()
+        {
+            return await Inner<int>(1);
+
+            async Task<T> Inner<T>(T value) where T : struct
+            {
+                await Task.Yield();
+                return Twice(value);
+
+                T Twice(T v)
+                {
+                    return v;
+                }
+            }
+        }
+
+        public void Run()
+        {
+            void Log(string message)
+            {
+                System.Console.WriteLine(message);
+            }
+
+            Log("run");
+        }
+    }
+}
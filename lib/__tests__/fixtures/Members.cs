@@ -0,0 +1,78 @@
+namespace Fixtures.Members
+{
+    public record Point(int X, int Y)
+    {
+        public double Length => System.Math.Sqrt(X * X + Y * Y);
+
+        public Point Scale(int factor) =>
+            new Point(X * factor, Y * factor);
+    }
+
+    public record struct Size(int Width, int Height);
+
+    public sealed record Order(string Id, decimal Total) : Entity(Id)
+    {
+        public bool IsLarge => Total > 1000;
+    }
+
+    public class Repository<TEntity, TKey>
+        where TEntity : class, new()
+        where TKey : struct
+    {
+        private readonly Dictionary<TKey, TEntity> _items = new();
+
+        public Repository() { }
+
+        public TEntity this[TKey key]
+        {
+            get => _items[key];
+            set => _items[key] = value;
+        }
+
+        public TResult Map<TResult>(TKey key, Func<TEntity, TResult> map)
+            where TResult : notnull
+        {
+            return map(_items[key]);
+        }
+
+        public int Count
+        {
+            get
+            {
+                return _items.Count;
+            }
+        }
+
+        public static Repository<TEntity, TKey> operator +(Repository<TEntity, TKey> left, TEntity right) => left;
+
+        ~Repository() => _items.Clear();
+    }
+
+    public class Tuples
+    {
+        public (int A, string B) Pair(int[] values, string name)
+        {
+            return (values.Length, name);
+        }
+
+        public async Task<(int Count, string Name)> LoadAsync(int id)
+        {
+            await Task.Delay(id);
+            return (1, "one");
+        }
+
+        public Dictionary<string, (int, int)> Map(string key) => new();
+
+        private static (int, int)[] Ranges() => [];
+
+        public static bool operator <(Tuples left, Tuples right) => false;
+
+        public static bool operator >(Tuples left, Tuples right) => true;
+
+        public List<T> Where<T>(Func<(T Item, int Index), bool> predicate)
+            where T : new()
+        {
+            return new List<T>();
+        }
+    }
+}
@@ -0,0 +1,41 @@
+namespace Fixtures.Preprocessor
+{
+    public class Settings
+    {
+#if DEBUG
+        public void Load()
+        {
+            Log("debug");
+#else
+        public void Load(string path)
+        {
+            Log(path);
+#endif
+        }
+
+        #region Helpers
+        private void Log(string message)
+        {
+#if TRACE
+            if (message != null) {
+#endif
+            System.Console.WriteLine(message);
+#if TRACE
+            }
+#endif
+        }
+        #endregion
+
+#if NET8_0_OR_GREATER
+        public int Version => 8;
+#elif NET6_0
+        public int Version => 6;
+#else
+        public int Version { get { return 4; } }
+#endif
+
+        public void Save()
+        {
+        }
+    }
+}
@@ -0,0 +1,43 @@
+namespace Fixtures.Strings
+{
+    public class Templates
+    {
+        public string Raw()
+        {
+            var json = """
+                { "name": "value", "nested": { "a": 1 } }
+                """;
+            return json;
+        }
+
+        public string RawInterpolated(int count)
+        {
+            return $$"""
+                { "count": {{count}}, "braces": "{}" }
+                """;
+        }
+
+        public string Interpolated(string name) => $"Hello {name}, {{not a hole}} {(name.Length > 3 ? "}" : "{")}";
+
+        public string Verbatim()
+        {
+            var path = @"C:\temp\{folder}\";
+            var quoted = @"She said ""}"" twice";
+            return path + quoted;
+        }
+
+        public string VerbatimInterpolated(string folder)
+        {
+            return $@"C:\{folder}\}}\" + @$"{folder}""{{";
+        }
+
+        public char Brace() => '}';
+
+        public string Comments()
+        {
+            // }
+            /* { */
+            return "/* } */ // {";
+        }
+    }
+}
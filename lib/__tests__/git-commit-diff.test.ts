@@ -0,0 +1,61 @@
+import { execFileSync } from "child_process"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterAll, describe, expect, it } from "vitest"
+import { getCommitDiff } from "../git-commit-diff"
+import { blameLines } from "../git-blame-refined"
+import { getMethodHistory } from "../git-method-history"
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "git-commit-diff-"))
+const git = (...args: string[]) =>
+  execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], { cwd: root })
+    .toString()
+    .trim()
+
+// Shell metacharacters in the name reach git as a plain argument
+const relativePath = 'Src/$(touch pwned) "quoted".cs'
+const write = (lines: string[]) => fs.writeFileSync(path.join(root, relativePath), `${lines.join("\n")}\n`)
+
+fs.mkdirSync(path.join(root, "Src"))
+git("init", "-q")
+write(["class A", "{", "    void Run()", "    {", "    }", "}"])
+git("add", "-A")
+git("commit", "-q", "-m", "Add A")
+write(["class A", "{", "    void Run()", "    {", "        Work();", "    }", "}"])
+git("commit", "-q", "-am", "Call Work")
+const commit = git("rev-parse", "HEAD")
+
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }))
+
+describe("getCommitDiff", () => {
+  it("diffs files whose names hold shell metacharacters and traces the method range", async () => {
+    const diff = await getCommitDiff(root, commit, relativePath, { start: 3, end: 6 })
+
+    expect(diff.path).toBe(relativePath)
+    expect(diff.methodRange?.new).toEqual({ start: 3, end: 6 })
+    expect(diff.hunks.flatMap((hunk) => hunk.lines.filter((line) => line.kind === "add"))).toMatchObject([
+      { content: "        Work();", newLine: 5, inMethod: true },
+    ])
+    expect(fs.existsSync(path.join(root, "pwned"))).toBe(false)
+  })
+
+  it("follows the method history of such a file", async () => {
+    const history = await getMethodHistory(path.join(root, relativePath), 3, 6, { startDate: "2000-01-01" }, root)
+
+    expect(history.map((entry) => entry.commitMessage)).toEqual(["Call Work", "Add A"])
+    expect(history[0].diff).toContain("+        Work();")
+    expect(fs.existsSync(path.join(root, "pwned"))).toBe(false)
+  })
+
+  it("blames the lines of such a file", async () => {
+    const lines = await blameLines(relativePath, 3, 5, { startDate: "2000-01-01" }, root, commit)
+
+    expect(lines.map((line) => [line.lineNumber, line.commitMessage, line.content])).toEqual([
+      [3, "Add A", "    void Run()"],
+      [4, "Add A", "    {"],
+      [5, "Call Work", "        Work();"],
+    ])
+    expect(fs.existsSync(path.join(root, "pwned"))).toBe(false)
+  })
+})
@@ -0,0 +1,47 @@
+import { execFileSync } from "child_process"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterAll, describe, expect, it } from "vitest"
+import { readBlobs, readSourceFile, resolveRevision } from "../git-revision"
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "git-revision-"))
+execFileSync("git", ["init", "-q"], { cwd: root })
+
+const writeBlob = (content: string) =>
+  execFileSync("git", ["hash-object", "-w", "--stdin"], { cwd: root, input: content }).toString().trim()
+
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }))
+
+describe("readBlobs", () => {
+  it("hands over every blob, including ones spanning many output chunks, and skips missing ones", async () => {
+    const small = "class A { }\n"
+    // Several pipe buffers long, with multi-byte characters across chunk boundaries
+    const large = `// ${"é".repeat(300_000)}\nclass B { }\n`
+    const empty = ""
+    const shas = [writeBlob(small), "0".repeat(40), writeBlob(large), writeBlob(empty)]
+
+    const read = new Map<string, string>()
+    await readBlobs(root, shas, (blob, content) => read.set(blob, content))
+
+    expect(read.get(shas[0])).toBe(small)
+    expect(read.get(shas[2])).toBe(large)
+    expect(read.get(shas[3])).toBe(empty)
+    expect(read.has(shas[1])).toBe(false)
+  })
+
+  it("reads files at a commit whatever shell metacharacters their names hold", async () => {
+    const relativePath = "Src/$(touch pwned) `touch pwned`.cs"
+    fs.mkdirSync(path.join(root, "Src"), { recursive: true })
+    fs.writeFileSync(path.join(root, relativePath), "class C { }\n")
+    execFileSync("git", ["add", "-A"], { cwd: root })
+    execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", "commit", "-q", "-m", "C"], {
+      cwd: root,
+    })
+    const commit = await resolveRevision("HEAD", root)
+    expect(commit).toMatch(/^[0-9a-f]{40}$/)
+
+    expect(await readSourceFile(path.join(root, relativePath), { root, commit: commit! })).toBe("class C { }\n")
+    expect(fs.existsSync(path.join(root, "pwned"))).toBe(false)
+  })
+})
@@ -0,0 +1,84 @@
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterAll, describe, expect, it } from "vitest"
+import { findMethodLineRange } from "../file-finder"
+import { parseParameters, parseStackTraceLine, toCSharpTypeName } from "../stack-trace-parser"
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "parameter-types-"))
+const filePath = path.join(dir, "Store.cs")
+// One overload per line, so the located start line names the overload
+fs.writeFileSync(
+  filePath,
+  `namespace Ns
+{
+    public class Store
+    {
+        public void Add(Dictionary<string, int> items) { }
+        public void Add(List<int> items) { }
+        public void Add(List<string> items) { }
+        public void Add(int? id) { }
+        public void Add(int id) { }
+        public void Add(int[] ids) { }
+        public void Add(ref int count) { }
+        public void Add(System.Collections.Generic.IDictionary<string, List<Ns.Order>> map) { }
+        public void Add((int Id, string Name) pair) { }
+    }
+}
+`,
+)
+
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+const locate = async (frame: string) => {
+  const entry = parseStackTraceLine(frame)
+  if (!entry) {
+    throw new Error(`Not a frame: ${frame}`)
+  }
+  return (await findMethodLineRange(filePath, entry))?.start
+}
+
+describe("toCSharpTypeName", () => {
+  it("maps generic arguments, nullables and arrays and drops every namespace", () => {
+    expect(toCSharpTypeName("System.Collections.Generic.List`1[System.Int32]")).toBe("List<int>")
+    expect(toCSharpTypeName("System.Nullable`1[System.Int32]")).toBe("int?")
+    expect(toCSharpTypeName("System.Collections.Generic.Dictionary`2[System.String,Ns.Models.Order][]")).toBe(
+      "Dictionary<string, Order>[]",
+    )
+    expect(toCSharpTypeName("List`1[[System.Int32, mscorlib, Version=4.0.0.0]]")).toBe("List<int>")
+    expect(toCSharpTypeName("System.Int32[,]")).toBe("int[,]")
+    expect(toCSharpTypeName("Ns.Outer+Inner")).toBe("Inner")
+    expect(toCSharpTypeName("List`1")).toBe("List`1")
+  })
+
+  it("marks by-ref parameters and maps their type", () => {
+    expect(parseParameters("System.Int32& count, System.Collections.Generic.List`1[System.String] names")).toEqual([
+      { type: "int", name: "count", byRef: true },
+      { type: "List<string>", name: "names", byRef: undefined },
+    ])
+  })
+})
+
+describe("findMethodLineRange overloads", () => {
+  it("picks the overload by generic arguments", async () => {
+    expect(await locate("at Ns.Store.Add(System.Collections.Generic.List`1[System.Int32] items)")).toBe(6)
+    expect(await locate("at Ns.Store.Add(System.Collections.Generic.List`1[System.String] items)")).toBe(7)
+    expect(
+      await locate("at Ns.Store.Add(System.Collections.Generic.Dictionary`2[System.String,System.Int32] items)"),
+    ).toBe(5)
+    expect(
+      await locate(
+        "at Ns.Store.Add(System.Collections.Generic.IDictionary`2[System.String,System.Collections.Generic.List`1[Ns.Order]] map)",
+      ),
+    ).toBe(12)
+  })
+
+  it("picks nullable, array, by-ref and tuple overloads", async () => {
+    expect(await locate("at Ns.Store.Add(System.Nullable`1[System.Int32] id)")).toBe(8)
+    expect(await locate("at Ns.Store.Add(Nullable`1 id)")).toBe(8)
+    expect(await locate("at Ns.Store.Add(Int32 id)")).toBe(9)
+    expect(await locate("at Ns.Store.Add(Int32[] ids)")).toBe(10)
+    expect(await locate("at Ns.Store.Add(Int32& count)")).toBe(11)
+    expect(await locate("at Ns.Store.Add(System.ValueTuple`2[System.Int32,System.String] pair)")).toBe(13)
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Per-request state for a single analysis run
+ * Every POST creates its own context, so concurrent runs never share progress, results or errors
+ */
+
+import { randomUUID } from "crypto"
+import { ProgressTracker, type ProgressStep } from "./progress-tracker"
+import type { RepositoryConfig, RoutingRule } from "./config"
+import type { PathMapping } from "./path-mapper"
+import type { AnalyzedRevision } from "./git-revision"
+import type { DateRange } from "./date-range"
+
+export interface AnalysisError {
+  namespace: string
+  methodName: string
+  message: string
+}
+
+export interface AnalysisContextOptions<TResult> {
+  repositories: RepositoryConfig[]
+  routes: RoutingRule[]
+  pathMappings: PathMapping[]
+  // Window commits count as recent changes in
+  dateRange: DateRange
+  contextLines: number
+  // Commit each repository is analyzed at; repositories without one use the working tree
+  revisions?: AnalyzedRevision[]
+  // Also list every commit that touched each located method (git log -L), not only the ones blame still shows
+  methodHistory?: boolean
+  totalSteps: number
+  signal?: AbortSignal
+  onResult?: (result: TResult, index: number) => void
+}
+
+export class AnalysisContext<TResult> {
+  readonly runId = randomUUID().slice(0, 8)
+  readonly repositories: RepositoryConfig[]
+  readonly routes: RoutingRule[]
+  readonly pathMappings: PathMapping[]
+  readonly dateRange: DateRange
+  // Lines blamed on each side of a known crash line
+  readonly contextLines: number
+  readonly revisions: AnalyzedRevision[]
+  // Commits of the revisions, by repository name
+  readonly commits: Map<string, string>
+  readonly methodHistory: boolean
+  readonly tracker: ProgressTracker
+  private readonly signal?: AbortSignal
+  private readonly onResult?: (result: TResult, index: number) => void
+  private readonly results: TResult[] = []
+  private readonly errors: AnalysisError[] = []
+
+  constructor(options: AnalysisContextOptions<TResult>) {
+    this.repositories = options.repositories
+    this.routes = options.routes
+    this.pathMappings = options.pathMappings
+    this.dateRange = options.dateRange
+    this.contextLines = options.contextLines
+    this.revisions = options.revisions ?? []
+    this.commits = new Map(this.revisions.map((revision) => [revision.repository, revision.commit]))
+    this.methodHistory = options.methodHistory ?? false
+    this.signal = options.signal
+    this.onResult = options.onResult
+    this.tracker = new ProgressTracker(options.totalSteps, this.runId)
+  }
+
+  /**
+   * True once the client has disconnected; remaining entries should not be analyzed
+   */
+  get cancelled(): boolean {
+    return this.signal?.aborted ?? false
+  }
+
+  onProgress(observer: (step: ProgressStep) => void) {
+    this.tracker.subscribe(observer)
+  }
+
+  addResult(result: TResult) {
+    this.results.push(result)
+    this.onResult?.(result, this.results.length - 1)
+  }
+
+  addError(error: AnalysisError) {
+    this.errors.push(error)
+    console.error(`[${this.runId}] Error processing ${error.namespace}.${error.methodName}: ${error.message}`)
+  }
+
+  getResults(): readonly TResult[] {
+    return this.results
+  }
+
+  getErrors(): readonly AnalysisError[] {
+    return this.errors
+  }
+}
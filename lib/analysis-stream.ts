@@ -0,0 +1,88 @@
+/**
+ * Newline-delimited JSON (NDJSON) events streamed by /api/analyze-stacktrace
+ * Each line is one event, emitted as soon as the corresponding work finishes
+ */
+
+import type { ProgressStep } from "./progress-tracker"
+import type { AnalyzedRevision } from "./git-revision"
+
+export const ANALYSIS_STREAM_CONTENT_TYPE = "application/x-ndjson; charset=utf-8"
+
+export interface AnalysisSummary {
+  runId: string
+  totalEntries: number
+  filesFound: number
+  methodsFound: number
+  withChanges: number
+  errors: number
+  dateRange: {
+    startDate: string
+    endDate: string
+    // Tags the dates were resolved from, when the request named tags
+    startTag?: string
+    endTag?: string
+  }
+  // Commits the repositories were analyzed at, when the request named a revision or version
+  revisions?: AnalyzedRevision[]
+}
+
+/**
+ * Exception type and message from the trace header, with the innermost exception of the chain
+ */
+export interface ExceptionHeader {
+  type: string
+  message: string
+  rootCause?: { type: string; message: string }
+}
+
+export type AnalysisStreamEvent<TResult = unknown> =
+  | { type: "exception"; exception: ExceptionHeader }
+  | { type: "progress"; step: ProgressStep }
+  | { type: "result"; index: number; result: TResult }
+  | { type: "complete"; summary: AnalysisSummary }
+  | { type: "error"; error: string }
+
+/**
+ * Serialize a single event as one NDJSON line
+ */
+export function encodeAnalysisEvent<TResult>(event: AnalysisStreamEvent<TResult>): string {
+  return `${JSON.stringify(event)}\n`
+}
+
+/**
+ * Read an NDJSON analysis stream, invoking onEvent for every event as it arrives
+ */
+export async function readAnalysisStream<TResult>(
+  response: Response,
+  onEvent: (event: AnalysisStreamEvent<TResult>) => void,
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Analysis response has no body")
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    buffer += decoder.decode(value, { stream: !done })
+
+    const lines = buffer.split("\n")
+    buffer = lines.pop() ?? ""
+
+    for (const line of lines) {
+      if (line.trim()) {
+        onEvent(JSON.parse(line))
+      }
+    }
+
+    if (done) {
+      break
+    }
+  }
+
+  if (buffer.trim()) {
+    onEvent(JSON.parse(buffer))
+  }
+}
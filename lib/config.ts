@@ -0,0 +1,269 @@
+/**
+ * Analyzer configuration: named repositories to analyze against, namespace routing, build path mapping
+ * and per-repository frame filter rules
+ * Sources, in order: stacktrace-analyzer.config.json, then STACKTRACE_ANALYZER_PROJECT_ROOT
+ */
+
+import { exec } from "child_process"
+import { promisify } from "util"
+import * as fs from "fs"
+import * as path from "path"
+import { StackTraceAnalyzerError, ErrorCodes } from "./error-handler"
+import type { PathMapping } from "./path-mapper"
+import { DEFAULT_FRAME_RULES, validateFrameRule, type FrameRule } from "./frame-filter"
+
+const execAsync = promisify(exec)
+
+export const CONFIG_FILE_NAME = "stacktrace-analyzer.config.json"
+
+// Name given to the repository configured through STACKTRACE_ANALYZER_PROJECT_ROOT
+export const ENV_REPOSITORY_NAME = "default"
+
+// Lines blamed on each side of the crash line when a frame records its line number
+export const DEFAULT_BLAME_CONTEXT_LINES = 3
+
+// Tags a product version is looked up under when a repository configures none
+export const DEFAULT_VERSION_TAGS = ["{version}", "v{version}"]
+
+export interface RepositoryConfig {
+  name: string
+  root: string
+  source?: "file" | "env"
+  // Frame include/exclude rules for traces analyzed against this repository; defaults when unset
+  frameRules?: FrameRule[]
+  // Tag names releases are tagged with, "{version}" standing for the version (e.g. "release/{version}")
+  versionTags?: string[]
+  // JSON file of version strings to commit SHAs or refs, relative to the root
+  versionMapFile?: string
+}
+
+/**
+ * Sends frames whose namespace matches the pattern (e.g. "Enterprise.Core.*") to a repository first
+ */
+export interface RoutingRule {
+  namespace: string
+  repository: string
+}
+
+// Settings of a repository whose root comes from STACKTRACE_ANALYZER_PROJECT_ROOT; kept in the config file by root
+export type RepositorySettings = Pick<RepositoryConfig, "frameRules" | "versionTags" | "versionMapFile">
+
+export interface AnalyzerConfig {
+  repositories: RepositoryConfig[]
+  // Settings of environment repositories, by root, so they survive without a file entry
+  environmentSettings: Record<string, RepositorySettings>
+  defaultRepository?: string
+  routes: RoutingRule[]
+  pathMappings: PathMapping[]
+  blameContextLines: number
+}
+
+/**
+ * Location of the config file, overridable with STACKTRACE_ANALYZER_CONFIG
+ */
+export function getConfigPath(): string {
+  return process.env.STACKTRACE_ANALYZER_CONFIG || path.join(process.cwd(), CONFIG_FILE_NAME)
+}
+
+/**
+ * Check a version tag pattern, returning why it is invalid or null when it can be used
+ */
+export function validateVersionTag(tag: unknown): string | null {
+  if (typeof tag !== "string" || !tag.includes("{version}")) {
+    return `Version tag "${String(tag)}" must contain {version}`
+  }
+  return null
+}
+
+/**
+ * Read the per-repository settings of a config file entry, dropping invalid rules and tags
+ */
+function readRepositorySettings(raw: any): RepositorySettings {
+  return {
+    frameRules: Array.isArray(raw.frameRules)
+      ? raw.frameRules.filter((rule: unknown) => validateFrameRule(rule) === null)
+      : undefined,
+    versionTags: Array.isArray(raw.versionTags)
+      ? raw.versionTags.filter((tag: unknown) => validateVersionTag(tag) === null)
+      : undefined,
+    versionMapFile: typeof raw.versionMapFile === "string" ? raw.versionMapFile : undefined,
+  }
+}
+
+function readConfigFile(configPath: string): AnalyzerConfig {
+  if (!fs.existsSync(configPath)) {
+    return {
+      repositories: [],
+      environmentSettings: {},
+      routes: [],
+      pathMappings: [],
+      blameContextLines: DEFAULT_BLAME_CONTEXT_LINES,
+    }
+  }
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(configPath, "utf-8"))
+    const repositories: RepositoryConfig[] = Array.isArray(raw.repositories)
+      ? raw.repositories
+          .filter((r: any) => r && typeof r.name === "string" && typeof r.root === "string")
+          .map((r: any) => ({
+            name: r.name.trim(),
+            root: r.root.trim(),
+            source: "file" as const,
+            ...readRepositorySettings(r),
+          }))
+      : []
+    const environmentSettings: Record<string, RepositorySettings> =
+      raw.environmentRepositories && typeof raw.environmentRepositories === "object"
+        ? Object.fromEntries(
+            Object.entries(raw.environmentRepositories)
+              .filter(([, settings]) => settings && typeof settings === "object")
+              .map(([root, settings]) => [root, readRepositorySettings(settings)]),
+          )
+        : {}
+    const routes: RoutingRule[] = Array.isArray(raw.routes)
+      ? raw.routes.filter((r: any) => r && typeof r.namespace === "string" && typeof r.repository === "string")
+      : []
+    const pathMappings: PathMapping[] = Array.isArray(raw.pathMappings)
+      ? raw.pathMappings.filter((m: any) => m && typeof m.from === "string" && typeof m.to === "string")
+      : []
+
+    return {
+      repositories,
+      environmentSettings,
+      defaultRepository: typeof raw.defaultRepository === "string" ? raw.defaultRepository : undefined,
+      routes,
+      pathMappings,
+      blameContextLines:
+        Number.isInteger(raw.blameContextLines) && raw.blameContextLines >= 0
+          ? raw.blameContextLines
+          : DEFAULT_BLAME_CONTEXT_LINES,
+    }
+  } catch (error) {
+    throw new StackTraceAnalyzerError(
+      `Could not read ${configPath}: ${error instanceof Error ? error.message : String(error)}`,
+      ErrorCodes.PROJECT_ROOT_ERROR,
+      { configPath },
+    )
+  }
+}
+
+/**
+ * Load configuration from the config file and environment
+ * A root set through the environment replaces a file repository with the same name
+ */
+export function loadConfig(): AnalyzerConfig {
+  const config = readConfigFile(getConfigPath())
+
+  const envRoot = process.env.STACKTRACE_ANALYZER_PROJECT_ROOT
+  if (envRoot) {
+    // Settings saved for this root apply; frame rules written for a file repository of the same name still do too
+    const settings = config.environmentSettings[envRoot] ?? {
+      frameRules: config.repositories.find((r) => r.name === ENV_REPOSITORY_NAME)?.frameRules,
+    }
+    config.repositories = [
+      { name: ENV_REPOSITORY_NAME, root: envRoot, source: "env", ...settings },
+      ...config.repositories.filter((r) => r.name !== ENV_REPOSITORY_NAME),
+    ]
+  }
+
+  if (!config.defaultRepository && config.repositories.length > 0) {
+    config.defaultRepository = config.repositories[0].name
+  }
+
+  return config
+}
+
+/**
+ * Persist file-sourced repositories and routing rules
+ * Repositories from the environment are not listed; their settings are stored under environmentRepositories by root
+ * Other settings already in the file, including other roots' environment settings, are kept as they are
+ */
+export function saveConfig(config: Pick<AnalyzerConfig, "repositories" | "defaultRepository" | "routes">) {
+  const configPath = getConfigPath()
+  const existing = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf-8")) : {}
+
+  const environmentRepositories = { ...existing.environmentRepositories }
+  for (const repository of config.repositories.filter((r) => r.source === "env")) {
+    environmentRepositories[repository.root] = {
+      frameRules: repository.frameRules,
+      versionTags: repository.versionTags,
+      versionMapFile: repository.versionMapFile,
+    }
+  }
+
+  const data = {
+    ...existing,
+    environmentRepositories: Object.keys(environmentRepositories).length > 0 ? environmentRepositories : undefined,
+    repositories: config.repositories
+      .filter((r) => r.source !== "env")
+      .map((r) => ({
+        name: r.name,
+        root: r.root,
+        frameRules: r.frameRules,
+        versionTags: r.versionTags,
+        versionMapFile: r.versionMapFile,
+      })),
+    defaultRepository: config.defaultRepository,
+    routes: config.routes,
+  }
+
+  fs.writeFileSync(configPath, `${JSON.stringify(data, null, 2)}\n`, "utf-8")
+}
+
+/**
+ * Look up a repository by name, falling back to the default repository
+ */
+export function getRepository(config: AnalyzerConfig, name?: string): RepositoryConfig {
+  const wanted = name || config.defaultRepository
+  const repository = config.repositories.find((r) => r.name === wanted)
+
+  if (!repository) {
+    throw new StackTraceAnalyzerError(
+      config.repositories.length === 0
+        ? `No repositories configured. Add one in settings, ${CONFIG_FILE_NAME} or STACKTRACE_ANALYZER_PROJECT_ROOT.`
+        : `Unknown repository "${wanted}"`,
+      ErrorCodes.PROJECT_ROOT_ERROR,
+      { repository: wanted },
+    )
+  }
+
+  return repository
+}
+
+/**
+ * Order repositories for an analysis: the selected repository first, then the others in configured order
+ */
+export function getSearchOrder(config: AnalyzerConfig, name?: string): RepositoryConfig[] {
+  const primary = getRepository(config, name)
+  return [primary, ...config.repositories.filter((r) => r.name !== primary.name)]
+}
+
+/**
+ * Frame rules for a repository, falling back to the defaults when it defines none
+ */
+export function getFrameRules(repository: RepositoryConfig): FrameRule[] {
+  return repository.frameRules ?? DEFAULT_FRAME_RULES
+}
+
+/**
+ * Ensure a project root exists and is a git work tree
+ */
+export async function validateProjectRoot(root: string): Promise<void> {
+  if (!root || !fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new StackTraceAnalyzerError(`Project root does not exist: ${root}`, ErrorCodes.PROJECT_ROOT_ERROR, { root })
+  }
+
+  try {
+    const { stdout } = await execAsync("git rev-parse --is-inside-work-tree", { cwd: root })
+    if (stdout.trim() !== "true") {
+      throw new Error(stdout.trim())
+    }
+  } catch {
+    throw new StackTraceAnalyzerError(
+      `Project root is not a git work tree: ${root}`,
+      ErrorCodes.PROJECT_ROOT_ERROR,
+      { root },
+    )
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Lightweight C# tokenizer used to find declaration boundaries
+ * Comments, whitespace and inactive preprocessor branches are dropped; string and char literals
+ * (regular, verbatim, interpolated and raw) become single tokens so braces inside them are never counted
+ */
+
+export type TokenKind = "identifier" | "number" | "string" | "char" | "operator" | "punctuation"
+
+export interface Token {
+  kind: TokenKind
+  value: string
+  // 1-based lines the token starts and ends on (literals may span lines)
+  line: number
+  endLine: number
+}
+
+// Multi-character operators the outline needs to see as one token
+// ">=" and "<=" are included so "operator >=" is not read as "=" ending a declaration header
+const OPERATORS = [
+  "=>",
+  "??=",
+  "??",
+  "?.",
+  "::",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "++",
+  "--",
+  "&&",
+  "||",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "&=",
+  "|=",
+  "^=",
+]
+
+// Sticky patterns, matched at the current position without slicing the source
+const STRING_PREFIX = /(\$*)(@?)(\$*)"/y
+const RAW_QUOTES = /"{3,}/y
+const BRACE_RUN = /\{+/y
+const CHAR_LITERAL = /'(?:\\.[^'\n]*|[^'\\\n])'/y
+const DIRECTIVE = /#\s*(\w+)/y
+const IDENTIFIER = /@?[A-Za-z_]\w*/y
+const NUMBER = /\d\w*(?:\.\d\w*)?/y
+
+/**
+ * Tokenize C# source
+ * Preprocessor conditionals keep only their first branch (#if), so #else/#elif code cannot unbalance braces
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  const text = source.replace(/\r\n?/g, "\n")
+  let pos = 0
+  let line = 1
+  // Per open #if: whether this branch is active; the first branch is taken
+  const conditionals: boolean[] = []
+  let atLineStart = true
+
+  const active = () => conditionals.every(Boolean)
+
+  const matchAt = (pattern: RegExp) => {
+    pattern.lastIndex = pos
+    return pattern.exec(text)
+  }
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count && pos < text.length; i++) {
+      if (text[pos] === "\n") {
+        line++
+      }
+      pos++
+    }
+  }
+
+  const skipLine = () => {
+    const end = text.indexOf("\n", pos)
+    pos = end === -1 ? text.length : end
+  }
+
+  /**
+   * Skip code inside an interpolation hole up to its closing braces, including nested literals
+   */
+  const skipHole = (closing: number) => {
+    let depth = 0
+    while (pos < text.length) {
+      const char = text[pos]
+      if (char === '"' || char === "'" || char === "@" || char === "$") {
+        if (readLiteral()) {
+          continue
+        }
+      }
+      if (char === "{") {
+        depth++
+      } else if (char === "}") {
+        if (depth === 0) {
+          advance(closing)
+          return
+        }
+        depth--
+      }
+      advance(1)
+    }
+  }
+
+  /**
+   * Read a string or char literal at pos, returning false when pos does not start one
+   */
+  const readLiteral = (): boolean => {
+    const prefix = matchAt(STRING_PREFIX)
+    if (prefix) {
+      const dollars = prefix[1].length + prefix[3].length
+      const verbatim = prefix[2] === "@"
+      advance(prefix[0].length - 1)
+
+      const quotes = matchAt(RAW_QUOTES)?.[0].length ?? 0
+      if (quotes >= 3) {
+        // Raw string: closed by the same number of quotes; holes need as many braces as there were "$"
+        advance(quotes)
+        const closer = '"'.repeat(quotes)
+        while (pos < text.length && !text.startsWith(closer, pos)) {
+          const braces = matchAt(BRACE_RUN)?.[0].length ?? 0
+          if (dollars > 0 && braces >= dollars) {
+            advance(braces)
+            skipHole(dollars)
+          } else {
+            advance(Math.max(1, braces))
+          }
+        }
+        advance(quotes)
+        return true
+      }
+
+      advance(1)
+      while (pos < text.length) {
+        const char = text[pos]
+        if (verbatim && char === '"' && text[pos + 1] === '"') {
+          advance(2)
+        } else if (char === '"') {
+          advance(1)
+          break
+        } else if (!verbatim && char === "\\") {
+          advance(2)
+        } else if (!verbatim && char === "\n") {
+          // Unterminated regular string: stop at the end of the line
+          break
+        } else if (dollars > 0 && char === "{") {
+          if (text[pos + 1] === "{") {
+            advance(2)
+          } else {
+            advance(1)
+            skipHole(1)
+          }
+        } else {
+          advance(1)
+        }
+      }
+      return true
+    }
+
+    if (text[pos] === "'") {
+      const match = matchAt(CHAR_LITERAL)
+      advance(match ? match[0].length : 1)
+      return true
+    }
+
+    return false
+  }
+
+  while (pos < text.length) {
+    const char = text[pos]
+
+    if (char === "\n") {
+      advance(1)
+      atLineStart = true
+      continue
+    }
+    if (char === " " || char === "\t") {
+      advance(1)
+      continue
+    }
+
+    // Preprocessor directives occupy whole lines
+    if (char === "#" && atLineStart) {
+      const directive = matchAt(DIRECTIVE)?.[1]
+      if (directive === "if") {
+        conditionals.push(true)
+      } else if (directive === "elif" || directive === "else") {
+        if (conditionals.length > 0) {
+          conditionals[conditionals.length - 1] = false
+        }
+      } else if (directive === "endif") {
+        conditionals.pop()
+      }
+      skipLine()
+      continue
+    }
+
+    atLineStart = false
+
+    if (!active()) {
+      skipLine()
+      continue
+    }
+
+    if (text.startsWith("//", pos)) {
+      skipLine()
+      continue
+    }
+    if (text.startsWith("/*", pos)) {
+      const end = text.indexOf("*/", pos + 2)
+      advance((end === -1 ? text.length : end + 2) - pos)
+      continue
+    }
+
+    const startLine = line
+    const start = pos
+
+    if (readLiteral()) {
+      tokens.push({
+        kind: char === "'" ? "char" : "string",
+        value: text.slice(start, pos),
+        line: startLine,
+        endLine: line,
+      })
+      continue
+    }
+
+    const identifier = matchAt(IDENTIFIER)
+    if (identifier) {
+      advance(identifier[0].length)
+      tokens.push({ kind: "identifier", value: identifier[0].replace(/^@/, ""), line: startLine, endLine: line })
+      continue
+    }
+
+    const number = matchAt(NUMBER)
+    if (number) {
+      advance(number[0].length)
+      tokens.push({ kind: "number", value: number[0], line: startLine, endLine: line })
+      continue
+    }
+
+    const operator = OPERATORS.find((op) => text.startsWith(op, pos))
+    if (operator) {
+      advance(operator.length)
+      tokens.push({ kind: "operator", value: operator, line: startLine, endLine: line })
+      continue
+    }
+
+    advance(1)
+    tokens.push({
+      kind: "{}()[]<>;,.:".includes(char) ? "punctuation" : "operator",
+      value: char,
+      line: startLine,
+      endLine: line,
+    })
+  }
+
+  return tokens
+}
@@ -0,0 +1,739 @@
+/**
+ * Declaration outline of a C# file, built from csharp-lexer tokens
+ * Gives accurate line ranges for types, methods, constructors, properties (and their accessors),
+ * indexers, operators, local functions and lambdas, including expression-bodied and body-less members
+ */
+
+import { tokenize, type Token } from "./csharp-lexer"
+
+export type OutlineKind =
+  | "using"
+  | "namespace"
+  | "type"
+  | "method"
+  | "constructor"
+  | "destructor"
+  | "property"
+  | "indexer"
+  | "operator"
+  | "accessor"
+  | "local-function"
+  | "lambda"
+
+export interface OutlineNode {
+  kind: OutlineKind
+  // Member name; imported namespace or type for using directives; "operator +" / "implicit operator int" for operators, "this" for indexers, "get"/"set" for accessors
+  name: string
+  // class, struct, record, interface or enum, for types
+  typeKeyword?: string
+  // Base class and implemented interfaces of a type as written ("Base<T>", "Ns.IBar")
+  baseTypes?: string[]
+  // Alias of a using alias directive ("Json" in "using Json = Newtonsoft.Json;")
+  alias?: string
+  // Interface of an explicit implementation ("IBar" in "void IBar.Baz()"), as written
+  explicitInterface?: string
+  // Declared parameters as written ("ref int? index", "string name = \"x\""), for members that take any
+  parameters?: string[]
+  modifiers: string[]
+  // Members ending in ";" without a body: abstract, interface, extern and partial method declarations
+  declarationOnly?: boolean
+  // 1-based, inclusive; start is the first line of the declaration after its attributes
+  startLine: number
+  endLine: number
+  children: OutlineNode[]
+}
+
+const TYPE_KEYWORDS = new Set(["class", "struct", "interface", "record", "enum"])
+
+const MODIFIERS = new Set([
+  "public",
+  "private",
+  "protected",
+  "internal",
+  "static",
+  "abstract",
+  "virtual",
+  "override",
+  "sealed",
+  "readonly",
+  "extern",
+  "unsafe",
+  "new",
+  "async",
+  "partial",
+  "required",
+  "volatile",
+  "const",
+  "file",
+])
+
+// Statement keywords that cannot start a local function declaration
+const STATEMENT_KEYWORDS = new Set([
+  "if",
+  "else",
+  "while",
+  "for",
+  "foreach",
+  "do",
+  "switch",
+  "case",
+  "using",
+  "lock",
+  "fixed",
+  "catch",
+  "return",
+  "throw",
+  "await",
+  "yield",
+  "new",
+  "goto",
+  "var",
+  "checked",
+  "unchecked",
+])
+
+const OPENERS: Record<string, string> = { "(": ")", "[": "]", "{": "}" }
+
+class OutlineParser {
+  constructor(private tokens: Token[]) {}
+
+  /**
+   * Index of the token closing the bracket opened at index, or the last token when unbalanced
+   */
+  matching(index: number): number {
+    const open = this.tokens[index].value
+    const close = OPENERS[open]
+    let depth = 0
+    for (let i = index; i < this.tokens.length; i++) {
+      const value = this.tokens[i].value
+      if (value === open) depth++
+      if (value === close && --depth === 0) return i
+    }
+    return this.tokens.length - 1
+  }
+
+  /**
+   * Index of the ";" ending an expression that starts at index, skipping nested brackets
+   */
+  expressionEnd(index: number, end: number): number {
+    for (let i = index; i < end; i++) {
+      const value = this.tokens[i].value
+      if (OPENERS[value]) {
+        i = this.matching(i)
+      } else if (value === ";") {
+        return i
+      }
+    }
+    return end - 1
+  }
+
+  /**
+   * Split the tokens between brackets into comma-separated parameters, reconstructed as text
+   */
+  parameters(open: number, close: number): string[] {
+    const parameters: string[] = []
+    let current: Token[] = []
+    let depth = 0
+
+    for (let i = open + 1; i < close; i++) {
+      const token = this.tokens[i]
+      if ("<([{".includes(token.value)) depth++
+      if (">)]}".includes(token.value)) depth--
+      if (token.value === "," && depth === 0) {
+        parameters.push(joinTokens(current))
+        current = []
+      } else {
+        current.push(token)
+      }
+    }
+
+    if (current.length > 0) {
+      parameters.push(joinTokens(current))
+    }
+    return parameters
+  }
+
+  /**
+   * Parse declarations in [start, end) of a namespace or type body
+   */
+  parseDeclarations(start: number, end: number, enclosingType?: string): OutlineNode[] {
+    const nodes: OutlineNode[] = []
+    let i = start
+
+    while (i < end) {
+      const token = this.tokens[i]
+
+      // Stray separators and attribute lists before a declaration
+      if (token.value === ";" || token.value === "}") {
+        i++
+        continue
+      }
+      if (token.value === "[") {
+        i = this.matching(i) + 1
+        continue
+      }
+
+      // Using directives: "using Ns;", "global using static Ns.Type;", "using Alias = Ns.Type;"
+      if (token.value === "using" || (token.value === "global" && this.tokens[i + 1]?.value === "using")) {
+        const close = this.expressionEnd(i, end)
+        nodes.push(this.usingDirective(i, close))
+        i = close + 1
+        continue
+      }
+
+      // Header: tokens up to "{", "=>", ";" or "=" outside brackets
+      // The parameter list is the first "(" outside type arguments that follows a name: tuple types in the return type
+      // ("(int A, string B) Pair(", "Task<(int, string)> LoadAsync(") come first or after modifiers
+      let j = i
+      let openParen = -1
+      let openBracket = -1
+      let angles = 0
+      while (j < end) {
+        const value = this.tokens[j].value
+        if (value === "{" || value === "=>" || value === ";" || value === "=") {
+          break
+        }
+        if (value === "<" || value === ">") {
+          // Operator symbols ("operator <", "operator >>") are not type arguments
+          let k = j - 1
+          while (k > i && (this.tokens[k].value === "<" || this.tokens[k].value === ">")) k--
+          if (this.tokens[k]?.value !== "operator") angles += value === "<" ? 1 : -1
+        }
+        if (value === "(" || value === "[") {
+          const previous = j > i ? this.tokens[j - 1].value : undefined
+          const afterModifier = !previous || MODIFIERS.has(previous) || previous === "ref"
+          if (value === "(" && openParen === -1 && angles === 0 && !afterModifier) {
+            openParen = j
+          }
+          if (value === "[" && openBracket === -1) openBracket = j
+          j = this.matching(j) + 1
+          continue
+        }
+        j++
+      }
+
+      const header = this.tokens.slice(i, j)
+      const terminator = this.tokens[j]
+      const node = this.classify(header, i, terminator?.value, openParen, openBracket, enclosingType)
+      const bodyEnd = this.declarationEnd(j, end, node?.kind)
+
+      if (node) {
+        node.declarationOnly =
+          terminator?.value === ";" && node.kind !== "namespace" && node.kind !== "type" ? true : undefined
+        node.endLine = this.tokens[Math.min(bodyEnd, this.tokens.length - 1)].endLine
+        this.parseChildren(node, j, bodyEnd)
+        nodes.push(node)
+      }
+
+      // File-scoped namespaces ("namespace Ns;") own everything after them
+      if (node?.kind === "namespace" && terminator?.value === ";") {
+        node.children = this.parseDeclarations(j + 1, end)
+        node.endLine = this.tokens[end - 1]?.endLine ?? node.endLine
+        return nodes
+      }
+
+      i = bodyEnd + 1
+    }
+
+    return nodes
+  }
+
+  /**
+   * Build the node of a using directive spanning [start, close]
+   */
+  usingDirective(start: number, close: number): OutlineNode {
+    const body = this.tokens.slice(start, close).filter((t) => t.value !== "global" && t.value !== "using")
+    const modifiers = body[0]?.value === "static" ? ["static"] : []
+    const target = modifiers.length > 0 ? body.slice(1) : body
+    const equals = target.findIndex((t) => t.value === "=")
+
+    return {
+      kind: "using",
+      name: joinTokens(equals === -1 ? target : target.slice(equals + 1)),
+      alias: equals === -1 ? undefined : joinTokens(target.slice(0, equals)),
+      modifiers,
+      startLine: this.tokens[start].line,
+      endLine: this.tokens[close].endLine,
+      children: [],
+    }
+  }
+
+  /**
+   * Index of the last token of a declaration whose header ends at index
+   */
+  declarationEnd(index: number, end: number, kind?: OutlineKind): number {
+    const terminator = this.tokens[index]
+    if (!terminator) {
+      return end - 1
+    }
+
+    if (terminator.value === "{") {
+      const close = this.matching(index)
+      // Property initializers follow the accessor block: "{ get; set; } = new();"
+      if (kind === "property" && this.tokens[close + 1]?.value === "=") {
+        return this.expressionEnd(close + 1, end)
+      }
+      return close
+    }
+
+    if (terminator.value === "=>" || terminator.value === "=") {
+      return this.expressionEnd(index, end)
+    }
+
+    return index
+  }
+
+  /**
+   * Classify a declaration header, returning null for fields, events, delegates and other members without a range
+   */
+  classify(
+    header: Token[],
+    headerStart: number,
+    terminator: string | undefined,
+    openParen: number,
+    openBracket: number,
+    enclosingType?: string,
+  ): OutlineNode | null {
+    if (header.length === 0) {
+      return null
+    }
+
+    const values = header.map((t) => t.value)
+    const modifiers = values.filter((value) => MODIFIERS.has(value))
+    const base = { modifiers, startLine: header[0].line, endLine: header[0].line, children: [] as OutlineNode[] }
+
+    if (values[0] === "namespace") {
+      return { ...base, kind: "namespace", name: joinTokens(header.slice(1)) }
+    }
+
+    const typeKeywordIndex = values.findIndex(
+      (value, index) => TYPE_KEYWORDS.has(value) && header[index + 1]?.kind === "identifier",
+    )
+    // "record struct Point" names the type after the second keyword
+    if (typeKeywordIndex !== -1 && !values.includes("delegate")) {
+      const nameIndex = TYPE_KEYWORDS.has(values[typeKeywordIndex + 1]) ? typeKeywordIndex + 2 : typeKeywordIndex + 1
+      return {
+        ...base,
+        kind: "type",
+        name: values[nameIndex],
+        typeKeyword: values[typeKeywordIndex],
+        baseTypes: baseTypesAfter(header, nameIndex),
+      }
+    }
+
+    if (values.includes("delegate") || values.includes("event")) {
+      return null
+    }
+
+    const operatorIndex = values.indexOf("operator")
+    if (operatorIndex !== -1 && openParen !== -1) {
+      const conversion = values[operatorIndex - 1] === "implicit" || values[operatorIndex - 1] === "explicit"
+      const name = conversion
+        ? `${values[operatorIndex - 1]} operator ${joinTokens(header.slice(operatorIndex + 1, openParen - headerStart))}`
+        : `operator ${values.slice(operatorIndex + 1, openParen - headerStart).join("")}`
+      return { ...base, kind: "operator", name, parameters: this.parameters(openParen, this.matching(openParen)) }
+    }
+
+    // Indexers: "public T this[int index]" or "T IList<T>.this[int index]"
+    const thisIndex = values.indexOf("this")
+    if (thisIndex !== -1 && openBracket === headerStart + thisIndex + 1) {
+      return {
+        ...base,
+        kind: "indexer",
+        name: "this",
+        explicitInterface: explicitInterfaceBefore(values, thisIndex),
+        parameters: this.parameters(openBracket, this.matching(openBracket)),
+      }
+    }
+
+    if (openParen !== -1) {
+      const nameIndex = nameBefore(values, openParen - headerStart)
+      if (nameIndex === -1) {
+        return null
+      }
+      const name = values[nameIndex]
+      const parameters = this.parameters(openParen, this.matching(openParen))
+
+      if (values[nameIndex - 1] === "~") {
+        return { ...base, kind: "destructor", name, parameters }
+      }
+      // Constructors have no return type: only modifiers precede the type's name
+      if (name === enclosingType && values.slice(0, nameIndex).every((value) => MODIFIERS.has(value))) {
+        return { ...base, kind: "constructor", name, parameters }
+      }
+      return {
+        ...base,
+        kind: "method",
+        name,
+        explicitInterface: explicitInterfaceBefore(values, nameIndex),
+        parameters,
+      }
+    }
+
+    // Properties: a type and a name before "{" or "=>"; everything else is a field
+    const last = header[header.length - 1]
+    if ((terminator === "{" || terminator === "=>") && last.kind === "identifier" && header.length >= 2) {
+      return {
+        ...base,
+        kind: "property",
+        name: last.value,
+        explicitInterface: explicitInterfaceBefore(values, header.length - 1),
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Fill in nested declarations: type members, property accessors, local functions and lambdas
+   */
+  parseChildren(node: OutlineNode, headerEnd: number, bodyEnd: number) {
+    const terminator = this.tokens[headerEnd]?.value
+
+    switch (node.kind) {
+      case "namespace":
+        if (terminator === "{") {
+          node.children = this.parseDeclarations(headerEnd + 1, bodyEnd)
+        }
+        return
+      case "type":
+        if (terminator === "{" && node.typeKeyword !== "enum") {
+          node.children = this.parseDeclarations(headerEnd + 1, bodyEnd, node.name)
+        }
+        return
+      case "property":
+      case "indexer":
+        if (terminator === "{") {
+          node.children = this.parseAccessors(headerEnd + 1, this.matching(headerEnd))
+        } else if (terminator === "=>") {
+          node.children = this.parseBody(headerEnd + 1, bodyEnd + 1)
+        }
+        return
+      default:
+        if (terminator === "{" || terminator === "=>") {
+          node.children = this.parseBody(headerEnd + 1, bodyEnd + 1)
+        }
+    }
+  }
+
+  /**
+   * Parse get/set/init/add/remove accessors of a property or indexer block
+   */
+  parseAccessors(start: number, end: number): OutlineNode[] {
+    const accessors: OutlineNode[] = []
+
+    for (let i = start; i < end; i++) {
+      const token = this.tokens[i]
+      if (token.value === "[") {
+        i = this.matching(i)
+        continue
+      }
+      if (!["get", "set", "init", "add", "remove"].includes(token.value)) {
+        continue
+      }
+
+      // Accessor modifiers ("private set") start the declaration
+      let first = i
+      while (first > start && MODIFIERS.has(this.tokens[first - 1].value)) first--
+
+      const terminator = this.tokens[i + 1]
+      const accessorEnd = terminator?.value === ";" ? i + 1 : this.declarationEnd(i + 1, end)
+      const accessor: OutlineNode = {
+        kind: "accessor",
+        name: token.value,
+        modifiers: this.tokens.slice(first, i).map((t) => t.value),
+        startLine: this.tokens[first].line,
+        endLine: this.tokens[accessorEnd].endLine,
+        children: terminator?.value === ";" ? [] : this.parseBody(i + 2, accessorEnd + 1),
+      }
+      accessors.push(accessor)
+      i = accessorEnd
+    }
+
+    return accessors
+  }
+
+  /**
+   * Find local functions and lambdas in a method or accessor body
+   */
+  parseBody(start: number, end: number): OutlineNode[] {
+    const nodes: OutlineNode[] = []
+    let statementStart = true
+
+    for (let i = start; i < end; i++) {
+      const token = this.tokens[i]
+
+      if (statementStart && token.kind === "identifier" && !STATEMENT_KEYWORDS.has(token.value)) {
+        const localFunction = this.tryLocalFunction(i, end)
+        if (localFunction) {
+          nodes.push(localFunction.node)
+          i = localFunction.end
+          statementStart = true
+          continue
+        }
+      }
+
+      // Switch expression arms ("1 => ...") use arrows too; they are not lambdas
+      if (token.value === "switch" && this.tokens[i + 1]?.value === "{") {
+        i = this.matching(i + 1)
+        statementStart = false
+        continue
+      }
+
+      if (token.value === "=>") {
+        const lambda = this.lambdaAt(i, start, end)
+        nodes.push(lambda.node)
+        // Lambdas may contain further lambdas; their children were collected already
+        i = lambda.end
+        statementStart = false
+        continue
+      }
+
+      statementStart = token.value === ";" || token.value === "{" || token.value === "}"
+    }
+
+    return nodes
+  }
+
+  /**
+   * Recognize "[modifiers] ReturnType Name[<T>](...) { ... }" or "=> ...;" at a statement start
+   */
+  tryLocalFunction(index: number, end: number): { node: OutlineNode; end: number } | null {
+    let j = index
+    let identifiers = 0
+
+    while (j < end) {
+      const value = this.tokens[j].value
+      if (value === "(" || value === "=" || value === ";" || value === "{" || value === "=>" || value === ".") {
+        break
+      }
+      if (value === "<") {
+        // Skip generic arguments of the return type or type parameters
+        let depth = 0
+        for (; j < end; j++) {
+          if (this.tokens[j].value === "<") depth++
+          if (this.tokens[j].value === ">" && --depth === 0) break
+        }
+      } else if (this.tokens[j].kind === "identifier") {
+        identifiers++
+      } else if (value !== "[" && value !== "]" && value !== "?" && value !== ",") {
+        return null
+      }
+      j++
+    }
+
+    if (this.tokens[j]?.value !== "(" || identifiers < 2) {
+      return null
+    }
+
+    const close = this.matching(j)
+    let after = close + 1
+    // Generic constraints, one clause per type parameter: "where T : class where U : struct"
+    while (after < end && this.tokens[after].value === "where") {
+      after++
+      while (after < end && !["{", "=>", "where"].includes(this.tokens[after].value)) after++
+    }
+    const terminator = after < end ? this.tokens[after].value : undefined
+    if (terminator !== "{" && terminator !== "=>") {
+      return null
+    }
+
+    const nameIndex =
+      index +
+      nameBefore(
+        this.tokens.slice(index, j).map((t) => t.value),
+        j - index,
+      )
+    const bodyEnd = terminator === "{" ? this.matching(after) : this.expressionEnd(after, end)
+    const node: OutlineNode = {
+      kind: "local-function",
+      name: this.tokens[nameIndex].value,
+      modifiers: this.tokens
+        .slice(index, nameIndex)
+        .map((t) => t.value)
+        .filter((value) => MODIFIERS.has(value)),
+      parameters: this.parameters(j, close),
+      startLine: this.tokens[index].line,
+      endLine: this.tokens[bodyEnd].endLine,
+      children: this.parseBody(after + 1, bodyEnd + 1),
+    }
+
+    return { node, end: bodyEnd }
+  }
+
+  /**
+   * Build the lambda whose arrow is at index: from its parameter list to the end of its body
+   */
+  lambdaAt(index: number, start: number, end: number): { node: OutlineNode; end: number } {
+    // Parameters: "x =>", "(a, b) =>", "async (a) =>", "static x =>"
+    let first = index - 1
+    if (this.tokens[first]?.value === ")") {
+      let depth = 0
+      for (; first >= start; first--) {
+        if (this.tokens[first].value === ")") depth++
+        if (this.tokens[first].value === "(" && --depth === 0) break
+      }
+    }
+    while (first > start && (this.tokens[first - 1].value === "async" || this.tokens[first - 1].value === "static")) {
+      first--
+    }
+
+    let bodyEnd: number
+    if (this.tokens[index + 1]?.value === "{") {
+      bodyEnd = this.matching(index + 1)
+    } else {
+      // Expression bodies end before the "," ")" "]" "}" or ";" that closes the enclosing expression
+      bodyEnd = index + 1
+      for (let i = index + 1; i < end; i++) {
+        const value = this.tokens[i].value
+        if (OPENERS[value]) {
+          i = this.matching(i)
+          bodyEnd = i
+          continue
+        }
+        if (value === "," || value === ")" || value === "]" || value === "}" || value === ";") {
+          break
+        }
+        bodyEnd = i
+      }
+    }
+
+    const node: OutlineNode = {
+      kind: "lambda",
+      name: "lambda",
+      modifiers: [],
+      startLine: this.tokens[Math.max(first, start)].line,
+      endLine: this.tokens[bodyEnd].endLine,
+      children: this.parseBody(index + 1, bodyEnd + 1),
+    }
+
+    return { node, end: bodyEnd }
+  }
+}
+
+/**
+ * Index of the member name before a parameter list, skipping type parameters ("Get<T>(")
+ */
+function nameBefore(values: string[], openParen: number): number {
+  let index = openParen - 1
+  if (values[index] === ">") {
+    let depth = 0
+    for (; index >= 0; index--) {
+      if (values[index] === ">") depth++
+      if (values[index] === "<" && --depth === 0) break
+    }
+    index--
+  }
+  return index >= 0 && /^[A-Za-z_]\w*$/.test(values[index]) ? index : -1
+}
+
+/**
+ * Base types listed after a type's name, its type parameters and primary constructor: ": Base<T>(x), IBar where T : new()"
+ */
+function baseTypesAfter(header: Token[], nameIndex: number): string[] {
+  let colon = nameIndex + 1
+  let depth = 0
+  for (; colon < header.length; colon++) {
+    const value = header[colon].value
+    if (value === "<" || value === "(") depth++
+    if (value === ">" || value === ")") depth--
+    if (value === ":" && depth === 0) break
+  }
+
+  const baseTypes: string[] = []
+  let current: Token[] = []
+  let angles = 0
+  let parens = 0
+  for (let i = colon + 1; i <= header.length; i++) {
+    const value = header[i]?.value
+    if (value === undefined || (angles === 0 && parens === 0 && (value === "," || value === "where"))) {
+      if (current.length > 0) baseTypes.push(joinTokens(current))
+      current = []
+      if (value !== ",") break
+      continue
+    }
+    if (value === "(") parens++
+    if (value === "<") angles++
+    if (value === ">") angles--
+    // Primary constructor arguments passed to the base class are not part of its name
+    if (parens === 0) current.push(header[i])
+    if (value === ")") parens--
+  }
+
+  return baseTypes
+}
+
+/**
+ * Interface qualifying an explicit implementation: the dotted name before the member ("IBar" in "IBar.Baz")
+ */
+function explicitInterfaceBefore(values: string[], nameIndex: number): string | undefined {
+  if (values[nameIndex - 1] !== ".") {
+    return undefined
+  }
+
+  let index = nameIndex - 2
+  if (values[index] === ">") {
+    let depth = 0
+    for (; index >= 0; index--) {
+      if (values[index] === ">") depth++
+      if (values[index] === "<" && --depth === 0) break
+    }
+    index--
+  }
+  return values[index]
+}
+
+function isWord(token: Token): boolean {
+  return token.kind === "identifier" || token.kind === "number" || token.kind === "string" || token.kind === "char"
+}
+
+/**
+ * Rebuild source-like text from tokens: "ref int? index", "List<int> items", "string name = \"x\""
+ */
+function joinTokens(tokens: Token[]): string {
+  let text = ""
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1]
+    const spaced =
+      !!previous &&
+      ((isWord(previous) && isWord(token)) ||
+        previous.value === "," ||
+        previous.value === "=" ||
+        token.value === "=" ||
+        ([">", "]", ")", "?", "*"].includes(previous.value) && isWord(token)))
+    text += `${spaced ? " " : ""}${token.value}`
+  })
+  return text
+}
+
+/**
+ * Build the declaration outline of C# source
+ */
+export function buildOutline(source: string): OutlineNode[] {
+  const tokens = tokenize(source)
+  return new OutlineParser(tokens).parseDeclarations(0, tokens.length)
+}
+
+/**
+ * Visit every node of an outline, depth-first
+ */
+export function walkOutline(nodes: OutlineNode[], visit: (node: OutlineNode, parents: OutlineNode[]) => void) {
+  const walk = (node: OutlineNode, parents: OutlineNode[]) => {
+    visit(node, parents)
+    node.children.forEach((child) => walk(child, [...parents, node]))
+  }
+  nodes.forEach((node) => walk(node, []))
+}
+
+/**
+ * Innermost node of the given kinds containing a line
+ */
+export function findNodeAtLine(nodes: OutlineNode[], line: number, kinds?: OutlineKind[]): OutlineNode | null {
+  let found: OutlineNode | null = null
+  walkOutline(nodes, (node) => {
+    if (line >= node.startLine && line <= node.endLine && (!kinds || kinds.includes(node.kind))) {
+      found = node
+    }
+  })
+  return found
+}
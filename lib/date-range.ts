@@ -0,0 +1,116 @@
+/**
+ * Window of dates that commits are weighed against: changes from the start to the end date, both inclusive, are
+ * "in range"
+ * Either end can be given as a release tag instead, resolved to the date of the tagged commit, so the window can span
+ * exactly from the last good build to the first failing one
+ */
+
+import { execFile } from "child_process"
+import { promisify } from "util"
+import type { RepositoryConfig } from "./config"
+import { isValidRevision, resolveRevision } from "./git-revision"
+import { StackTraceAnalyzerError, ErrorCodes } from "./error-handler"
+
+const execFileAsync = promisify(execFile)
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Dates are YYYY-MM-DD; without an end date the window runs up to today
+ */
+export interface DateRange {
+  startDate: string
+  endDate?: string
+  // Tags the dates were resolved from, when the request named tags
+  startTag?: string
+  endTag?: string
+}
+
+/**
+ * Window as sent by the client: each end is a date or a tag, and only the start is required
+ */
+export interface DateRangeRequest {
+  startDate?: unknown
+  endDate?: unknown
+  startTag?: unknown
+  endTag?: unknown
+}
+
+export function isValidDate(date: unknown): date is string {
+  return typeof date === "string" && DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(date))
+}
+
+/**
+ * Check a YYYY-MM-DD commit date against the window
+ */
+export function isInDateRange(date: string, range: DateRange): boolean {
+  return !!date && date >= range.startDate && (!range.endDate || date <= range.endDate)
+}
+
+/**
+ * Check the shape of a requested window; returns the error to report, or null when it is valid
+ */
+export function validateDateRange(request: DateRangeRequest): string | null {
+  const { startDate, endDate, startTag, endTag } = request
+  if (startDate === undefined && startTag === undefined) {
+    return "Missing startDate or startTag"
+  }
+  if ((startDate !== undefined && startTag !== undefined) || (endDate !== undefined && endTag !== undefined)) {
+    return "Pass either a date or a tag for each end of the date range, not both"
+  }
+  if ((startDate !== undefined && !isValidDate(startDate)) || (endDate !== undefined && !isValidDate(endDate))) {
+    return "Invalid date format. Use YYYY-MM-DD"
+  }
+  for (const tag of [startTag, endTag]) {
+    if (tag !== undefined && (typeof tag !== "string" || !isValidRevision(tag))) {
+      return `Invalid tag "${String(tag)}"`
+    }
+  }
+  return null
+}
+
+/**
+ * Date of the commit a tag points to, from the first repository that has the tag
+ */
+export async function resolveTagDate(tag: string, repositories: RepositoryConfig[]): Promise<string> {
+  for (const repository of repositories) {
+    const commit = await resolveRevision(`refs/tags/${tag}`, repository.root)
+    if (!commit) {
+      continue
+    }
+
+    const { stdout } = await execFileAsync("git", ["show", "-s", "--format=%cs", commit], { cwd: repository.root })
+    return stdout.trim()
+  }
+
+  throw new StackTraceAnalyzerError(
+    `Tag "${tag}" not found in ${repositories.map((r) => r.name).join(", ")}`,
+    ErrorCodes.REVISION_NOT_FOUND,
+  )
+}
+
+/**
+ * Turn a validated window request into dates, resolving tags in the repositories
+ * Throws when the window ends before it starts
+ */
+export async function resolveDateRange(
+  request: DateRangeRequest,
+  repositories: RepositoryConfig[],
+): Promise<DateRange> {
+  const startTag = request.startTag as string | undefined
+  const endTag = request.endTag as string | undefined
+  const range: DateRange = {
+    startDate: startTag ? await resolveTagDate(startTag, repositories) : (request.startDate as string),
+    endDate: endTag ? await resolveTagDate(endTag, repositories) : (request.endDate as string | undefined),
+    startTag,
+    endTag,
+  }
+
+  if (range.endDate && range.endDate < range.startDate) {
+    throw new StackTraceAnalyzerError(
+      `The date range ends (${endTag ?? range.endDate}) before it starts (${startTag ?? range.startDate})`,
+      ErrorCodes.INVALID_DATE,
+    )
+  }
+  return range
+}
@@ -0,0 +1,363 @@
+/**
+ * On-disk index of the types each C# file declares, keyed by fully qualified name ("Ns.Order", "Ns.Order.Inner")
+ * Resolves frames to the files that really declare their type, whatever the folder layout or file name
+ * Files are re-read only when their mtime or size changes, and re-parsed only when their git blob hash changes
+ * Indexes of a commit are kept apart from the working tree's and reuse its parsed files for every unchanged blob
+ */
+
+import * as crypto from "crypto"
+import * as fs from "fs"
+import * as path from "path"
+import { buildOutline, type OutlineNode } from "./csharp-outline"
+import { readBlobs } from "./git-revision"
+
+// Bump when the stored shape or the extraction changes, so old indexes are rebuilt
+const INDEX_VERSION = 3
+
+// How long a loaded index is trusted before files are checked for changes again
+const INDEX_TTL_MS = 60 * 1000
+
+// Indexes of commits kept on disk per repository; the least recently used are deleted beyond this
+const MAX_STORED_REVISION_INDEXES = 8
+
+export const INDEX_DIR_NAME = ".stacktrace-index"
+
+export interface TypeDeclaration {
+  // Fully qualified, nested types joined with "." and without generic parameters
+  name: string
+  line: number
+  partial: boolean
+  // Base class and interfaces as written in the declaration, resolved against usings on lookup
+  baseTypes: string[]
+  // Names of the methods and properties the type declares, for searches by member name
+  members: string[]
+}
+
+interface UsingDirective {
+  name: string
+  alias?: string
+}
+
+interface IndexedFile {
+  mtimeMs: number
+  size: number
+  // Same hash as `git hash-object`, so files touched without changes (checkouts, clones) are not re-parsed
+  blob: string
+  types: TypeDeclaration[]
+  usings: UsingDirective[]
+}
+
+interface StoredIndex {
+  version: number
+  root: string
+  files: Record<string, IndexedFile>
+}
+
+export interface DeclarationIndex {
+  root: string
+  // Relative paths of the files declaring each type
+  types: Map<string, { relativePath: string; declaration: TypeDeclaration }[]>
+  // Namespace imports and aliases of each file, by relative path
+  usings: Map<string, UsingDirective[]>
+}
+
+const loadedIndexes = new Map<string, { index: Promise<DeclarationIndex>; loadedAt: number }>()
+
+/**
+ * Location of a repository's index, or of its index at a commit, overridable with STACKTRACE_ANALYZER_INDEX_DIR
+ * Indexes of a commit share the repository's key as prefix ("<key>.<commit>.json"), so they can be pruned together
+ */
+function getIndexPath(projectRoot: string, commit?: string): string {
+  const dir = process.env.STACKTRACE_ANALYZER_INDEX_DIR || path.join(process.cwd(), INDEX_DIR_NAME)
+  const key = crypto.createHash("sha1").update(path.resolve(projectRoot)).digest("hex").slice(0, 16)
+  return path.join(dir, commit ? `${key}.${commit}.json` : `${key}.json`)
+}
+
+/**
+ * Delete the repository's least recently used commit indexes beyond MAX_STORED_REVISION_INDEXES
+ * Indexes are touched whenever they are loaded, so their mtime tells when they were last used
+ */
+async function pruneRevisionIndexes(projectRoot: string) {
+  const workingTreeIndex = getIndexPath(projectRoot)
+  const dir = path.dirname(workingTreeIndex)
+  const prefix = `${path.basename(workingTreeIndex, ".json")}.`
+
+  try {
+    const stored = await Promise.all(
+      (await fs.promises.readdir(dir))
+        .filter((name) => name.startsWith(prefix) && name.endsWith(".json"))
+        .map(async (name) => ({ name, mtimeMs: (await fs.promises.stat(path.join(dir, name))).mtimeMs })),
+    )
+    const stale = stored.sort((a, b) => b.mtimeMs - a.mtimeMs).slice(MAX_STORED_REVISION_INDEXES)
+    await Promise.all(stale.map(({ name }) => fs.promises.rm(path.join(dir, name), { force: true })))
+  } catch (error) {
+    console.warn(`Could not prune commit indexes in ${dir}:`, error)
+  }
+}
+
+function gitBlobHash(content: Buffer): string {
+  return crypto.createHash("sha1").update(`blob ${content.length}\0`).update(content).digest("hex")
+}
+
+/**
+ * Collect the types declared in C# source, with their enclosing namespaces and types, and the file's usings
+ */
+export function extractDeclarations(source: string): Pick<IndexedFile, "types" | "usings"> {
+  const types: TypeDeclaration[] = []
+  const usings: UsingDirective[] = []
+  const visit = (nodes: OutlineNode[], scope: string) => {
+    for (const node of nodes) {
+      const name = scope ? `${scope}.${node.name}` : node.name
+      if (node.kind === "using" && !node.modifiers.includes("static")) {
+        usings.push({ name: node.name, alias: node.alias })
+      } else if (node.kind === "namespace") {
+        visit(node.children, name)
+      } else if (node.kind === "type") {
+        types.push({
+          name,
+          line: node.startLine,
+          partial: node.modifiers.includes("partial"),
+          baseTypes: node.baseTypes ?? [],
+          members: Array.from(
+            new Set(
+              node.children
+                .filter((child) => child.kind === "method" || child.kind === "property")
+                .map((child) => child.name),
+            ),
+          ),
+        })
+        visit(node.children, name)
+      }
+    }
+  }
+  visit(buildOutline(source), "")
+  return { types, usings }
+}
+
+function readStoredIndex(indexPath: string, projectRoot: string): StoredIndex {
+  try {
+    const stored = JSON.parse(fs.readFileSync(indexPath, "utf-8")) as StoredIndex
+    if (stored.version === INDEX_VERSION && stored.root === projectRoot && stored.files) {
+      return stored
+    }
+  } catch {
+    // Missing or unreadable index: rebuild from scratch
+  }
+  return { version: INDEX_VERSION, root: projectRoot, files: {} }
+}
+
+async function saveIndex(indexPath: string, projectRoot: string, files: Record<string, IndexedFile>) {
+  try {
+    await fs.promises.mkdir(path.dirname(indexPath), { recursive: true })
+    await fs.promises.writeFile(indexPath, JSON.stringify({ version: INDEX_VERSION, root: projectRoot, files }))
+  } catch (error) {
+    console.warn(`Could not save declaration index to ${indexPath}:`, error)
+  }
+}
+
+function toDeclarationIndex(projectRoot: string, files: Record<string, IndexedFile>): DeclarationIndex {
+  const byType: DeclarationIndex["types"] = new Map()
+  const usings: DeclarationIndex["usings"] = new Map()
+  for (const [relativePath, file] of Object.entries(files)) {
+    for (const declaration of file.types) {
+      byType.set(declaration.name, [...(byType.get(declaration.name) ?? []), { relativePath, declaration }])
+    }
+    usings.set(relativePath, file.usings)
+  }
+
+  return { root: projectRoot, types: byType, usings }
+}
+
+/**
+ * Bring the stored index up to date with the given files and save it when anything changed
+ */
+async function updateIndex(projectRoot: string, relativePaths: string[]): Promise<DeclarationIndex> {
+  const indexPath = getIndexPath(projectRoot)
+  const stored = readStoredIndex(indexPath, projectRoot)
+  const files: Record<string, IndexedFile> = {}
+  let reparsed = 0
+  let changed = Object.keys(stored.files).length !== relativePaths.length
+
+  for (const relativePath of relativePaths) {
+    const previous = stored.files[relativePath]
+    try {
+      const stat = await fs.promises.stat(path.join(projectRoot, relativePath))
+      if (previous && previous.mtimeMs === stat.mtimeMs && previous.size === stat.size) {
+        files[relativePath] = previous
+        continue
+      }
+
+      const content = await fs.promises.readFile(path.join(projectRoot, relativePath))
+      const blob = gitBlobHash(content)
+      changed = true
+      if (previous?.blob === blob) {
+        files[relativePath] = { ...previous, mtimeMs: stat.mtimeMs, size: stat.size }
+        continue
+      }
+
+      files[relativePath] = {
+        mtimeMs: stat.mtimeMs,
+        size: stat.size,
+        blob,
+        ...extractDeclarations(content.toString("utf-8")),
+      }
+      reparsed++
+    } catch (error) {
+      console.warn(`Could not index ${relativePath}:`, error)
+    }
+  }
+
+  if (changed) {
+    await saveIndex(indexPath, projectRoot, files)
+    console.log(`Declaration index for ${projectRoot}: ${relativePaths.length} files, ${reparsed} parsed`)
+  }
+
+  return toDeclarationIndex(projectRoot, files)
+}
+
+/**
+ * Build the index of a commit from its files' blob hashes
+ * Blobs already parsed for the working tree or an earlier load are reused; the rest are read from git and parsed
+ */
+async function updateRevisionIndex(
+  projectRoot: string,
+  commit: string,
+  blobs: Map<string, string>,
+): Promise<DeclarationIndex> {
+  const indexPath = getIndexPath(projectRoot, commit)
+  const stored = readStoredIndex(indexPath, projectRoot)
+  const parsed = new Map<string, IndexedFile>()
+  for (const file of [
+    ...Object.values(readStoredIndex(getIndexPath(projectRoot), projectRoot).files),
+    ...Object.values(stored.files),
+  ]) {
+    parsed.set(file.blob, file)
+  }
+
+  const files: Record<string, IndexedFile> = {}
+  const missing: string[] = []
+  for (const [relativePath, blob] of blobs) {
+    const known = parsed.get(blob)
+    if (known) {
+      files[relativePath] = known
+    } else {
+      missing.push(relativePath)
+    }
+  }
+
+  // Blobs are parsed as git streams them, so their contents are never all held at once
+  const read = new Map<string, IndexedFile>()
+  if (missing.length > 0) {
+    await readBlobs(projectRoot, Array.from(new Set(missing.map((p) => blobs.get(p) as string))), (blob, content) =>
+      read.set(blob, { mtimeMs: 0, size: Buffer.byteLength(content), blob, ...extractDeclarations(content) }),
+    )
+  }
+  for (const relativePath of missing) {
+    const blob = blobs.get(relativePath) as string
+    const file = read.get(blob)
+    if (!file) {
+      console.warn(`Could not index ${relativePath} at ${commit}: blob ${blob} not found`)
+      continue
+    }
+    files[relativePath] = file
+  }
+
+  if (missing.length > 0 || Object.keys(stored.files).length !== blobs.size) {
+    await saveIndex(indexPath, projectRoot, files)
+    console.log(`Declaration index for ${projectRoot} at ${commit}: ${blobs.size} files, ${missing.length} parsed`)
+  } else {
+    const now = new Date()
+    await fs.promises.utimes(indexPath, now, now).catch(() => undefined)
+  }
+  await pruneRevisionIndexes(projectRoot)
+
+  return toDeclarationIndex(projectRoot, files)
+}
+
+function loadCached(key: string, load: () => Promise<DeclarationIndex>): Promise<DeclarationIndex> {
+  const cached = loadedIndexes.get(key)
+  if (cached && Date.now() - cached.loadedAt < INDEX_TTL_MS) {
+    return cached.index
+  }
+
+  const index = load()
+  loadedIndexes.set(key, { index, loadedAt: Date.now() })
+  // A failed load is retried on the next lookup instead of being cached
+  index.catch(() => loadedIndexes.delete(key))
+  return index
+}
+
+/**
+ * Load the declaration index of a repository, updating it for the given C# files
+ * Reused for a short while so a single analysis checks the files once
+ */
+export function loadDeclarationIndex(
+  projectRoot: string,
+  listFiles: () => Promise<string[]>,
+): Promise<DeclarationIndex> {
+  return loadCached(projectRoot, () => listFiles().then((relativePaths) => updateIndex(projectRoot, relativePaths)))
+}
+
+/**
+ * Load the declaration index of a repository at a commit, for the C# files listed with their blob hashes
+ */
+export function loadRevisionIndex(
+  projectRoot: string,
+  commit: string,
+  listFiles: () => Promise<Map<string, string>>,
+): Promise<DeclarationIndex> {
+  return loadCached(`${projectRoot}@${commit}`, () =>
+    listFiles().then((blobs) => updateRevisionIndex(projectRoot, commit, blobs)),
+  )
+}
+
+/**
+ * Files declaring a type, by the frame's "Namespace.Class" (generic arity such as Repo`1 is ignored)
+ */
+export function findTypeDeclarations(index: DeclarationIndex, typeName: string) {
+  return index.types.get(typeName.replace(/`\d+/g, "")) ?? []
+}
+
+/**
+ * Strip generic arguments and "global::" from a type name as written: "global::Ns.Base<List<T>>" becomes "Ns.Base"
+ */
+function plainTypeName(name: string): string {
+  let plain = name.replace(/^global::/, "")
+  while (/<[^<>]*>/.test(plain)) {
+    plain = plain.replace(/<[^<>]*>/g, "")
+  }
+  return plain.trim()
+}
+
+/**
+ * Resolve the base class and interfaces of a type to the fully qualified names of types in the index
+ * Names are looked up the way C# does: enclosing namespaces and types from the inside out, then using aliases and
+ * imported namespaces. Bases declared outside the repository (framework types) are left out
+ */
+export function resolveBaseTypes(index: DeclarationIndex, typeName: string): string[] {
+  const resolved: string[] = []
+
+  for (const { relativePath, declaration } of findTypeDeclarations(index, typeName)) {
+    const usings = index.usings.get(relativePath) ?? []
+    const scopes = declaration.name.split(".").slice(0, -1)
+
+    for (const baseType of declaration.baseTypes) {
+      const name = plainTypeName(baseType)
+      const [first, ...rest] = name.split(".")
+      const alias = usings.find((using) => using.alias === first)
+
+      const candidates = [
+        ...(alias ? [[plainTypeName(alias.name), ...rest].join(".")] : []),
+        ...scopes.map((_, i) => `${scopes.slice(0, scopes.length - i).join(".")}.${name}`),
+        name,
+        ...usings.filter((using) => !using.alias).map((using) => `${using.name}.${name}`),
+      ]
+      const match = candidates.find((candidate) => index.types.has(candidate))
+      if (match && !resolved.includes(match)) {
+        resolved.push(match)
+      }
+    }
+  }
+
+  return resolved
+}
@@ -20,6 +20,7 @@ export const ErrorCodes = {
   GIT_ERROR: "GIT_ERROR",
   INVALID_DATE: "INVALID_DATE",
   PROJECT_ROOT_ERROR: "PROJECT_ROOT_ERROR",
+  REVISION_NOT_FOUND: "REVISION_NOT_FOUND",
   UNKNOWN: "UNKNOWN",
 }
 
@@ -33,7 +34,11 @@ export function handleError(error: any): string {
       case ErrorCodes.GIT_ERROR:
         return "Git command failed. Ensure you are in a Git repository with proper permissions."
       case ErrorCodes.INVALID_DATE:
-        return "Invalid date format. Please use YYYY-MM-DD format."
+        return `${error.message}. Please use YYYY-MM-DD dates, with the start before the end.`
+      case ErrorCodes.PROJECT_ROOT_ERROR:
+        return `${error.message}. Check the repository settings.`
+      case ErrorCodes.REVISION_NOT_FOUND:
+        return `${error.message}. Check the commit SHA, tag or branch, and fetch it if it is only on the remote.`
       default:
         return error.message
     }
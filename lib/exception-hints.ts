@@ -0,0 +1,174 @@
+/**
+ * Exception-type specific hints for the source line that threw
+ * Each detector flags the expressions on a line that can raise its exception type
+ */
+
+import { extractDeclarations } from "./declaration-index"
+import { readSourceFile, type SourceRevision } from "./git-revision"
+
+export interface ExceptionHint {
+  line: number
+  expression: string
+  message: string
+}
+
+// What a name resolves to in a file
+type NameKind = "namespace" | "type"
+
+/**
+ * Detectors get the line's code and the namespaces and types named in the file
+ */
+type HintDetector = (code: string, line: number, names: Map<string, NameKind>) => ExceptionHint[]
+
+// Receivers that can never be null: keywords and common static types
+const NON_NULL_RECEIVERS = new Set(["this", "base", "string", "String", "Math", "Console", "System", "nameof"])
+
+/**
+ * Blank out the contents of string/char literals and trailing comments so they are not flagged
+ * Lengths are kept, so match indices also point into the original code
+ */
+function stripLiteralsAndComments(code: string): string {
+  const blank = (text: string) => " ".repeat(text.length)
+  return code
+    .replace(/(@?\$?")((?:[^"\\]|\\.)*)"/g, (_, open: string, body: string) => `${open}${blank(body)}"`)
+    .replace(/'((?:[^'\\]|\\.))'/g, (_, body: string) => `'${blank(body)}'`)
+    .replace(/\/\/.*$/, blank)
+}
+
+/**
+ * Names that resolve to namespaces or types in a file: roots of its usings, using aliases, its namespaces and the
+ * types it declares
+ */
+function collectNames(content: string): Map<string, NameKind> {
+  const names = new Map<string, NameKind>([
+    ["System", "namespace"],
+    ["Microsoft", "namespace"],
+  ])
+  const { types, usings } = extractDeclarations(content)
+  for (const using of usings) {
+    names.set(using.alias ?? using.name.split(".")[0], "namespace")
+  }
+  // Enclosing namespaces first, so a type named like a namespace segment still counts as a type
+  for (const segment of types.flatMap((type) => type.name.split(".").slice(0, -1))) {
+    if (!names.has(segment)) {
+      names.set(segment, "namespace")
+    }
+  }
+  for (const type of types) {
+    names.set(type.name.split(".").pop() ?? type.name, "type")
+  }
+  return names
+}
+
+/**
+ * NullReferenceException: every member access whose receiver may be null
+ * Null-conditional (?.) accesses are safe and skipped, as are static accesses through qualified names such as
+ * System.IO.File.ReadAllText, which start from a namespace or type of the file
+ * A qualified name ends at a type declared in the file, so its static members are still flagged
+ */
+const detectMemberAccesses: HintDetector = (code, line, names) => {
+  const hints: ExceptionHint[] = []
+  const seen = new Set<string>()
+  // The member is matched with a lookahead so chained accesses (a.b.c) flag every link
+  const pattern = /([A-Za-z_]\w*(?:\[[^\]]*\]|\([^()]*\))?)(\??)\.(?=([A-Za-z_]\w*))/g
+  const stripped = stripLiteralsAndComments(code)
+  // Where the next link of a qualified name starts, while the chain is still made of namespaces and types
+  let qualifiedEnd = -1
+
+  for (const match of stripped.matchAll(pattern)) {
+    const [text, , conditional, member] = match
+    const index = match.index ?? 0
+    const receiver = code.slice(index, index + match[1].length)
+    const expression = `${receiver}.${member}`
+    const startsChain = stripped[index - 1] !== "."
+    if (/^\w+$/.test(receiver) && ((startsChain && names.has(receiver)) || index === qualifiedEnd)) {
+      qualifiedEnd = names.get(receiver) === "type" ? -1 : index + text.length
+      continue
+    }
+    if (conditional || NON_NULL_RECEIVERS.has(receiver) || seen.has(expression)) {
+      continue
+    }
+    seen.add(expression)
+    hints.push({ line, expression, message: `"${receiver}" may be null when accessing .${member}` })
+  }
+
+  return hints
+}
+
+/**
+ * KeyNotFoundException: dictionary indexers, which throw for missing keys (TryGetValue does not)
+ */
+const detectIndexers: HintDetector = (code, line) => {
+  const hints: ExceptionHint[] = []
+  const pattern = /([A-Za-z_][\w.]*)\s*\[([^\]]+)\]/g
+  const stripped = stripLiteralsAndComments(code)
+
+  for (const match of stripped.matchAll(pattern)) {
+    const index = match.index ?? 0
+    const [text, target] = match
+    // Skip array declarations such as "new int[5]" and "string[] x"
+    if (/\bnew\s+[\w.]+\s*$/.test(stripped.slice(0, index) + target) || !match[2].trim()) {
+      continue
+    }
+    // Report the original code, with literal keys as written
+    const expression = code.slice(index, index + text.length)
+    const key = expression.slice(expression.indexOf("[") + 1, -1)
+    hints.push({ line, expression, message: `Indexer on "${target}" throws if key ${key.trim()} is missing` })
+  }
+
+  return hints
+}
+
+/**
+ * Index range exceptions: indexers whose index may be outside the collection
+ */
+const detectIndexRange: HintDetector = (code, line, names) =>
+  detectIndexers(code, line, names).map((hint) => ({
+    ...hint,
+    message: hint.message.replace(/throws if key (.*) is missing$/, "throws if $1 is out of range"),
+  }))
+
+const DETECTORS: Record<string, HintDetector> = {
+  NullReferenceException: detectMemberAccesses,
+  KeyNotFoundException: detectIndexers,
+  IndexOutOfRangeException: detectIndexRange,
+  ArgumentOutOfRangeException: detectIndexRange,
+}
+
+/**
+ * Check whether hints exist for an exception type (namespace is ignored)
+ */
+export function hasExceptionHints(exceptionType: string): boolean {
+  return !!DETECTORS[exceptionType.split(".").pop() ?? ""]
+}
+
+/**
+ * Flag expressions that can raise the exception on the given lines of a file
+ * Pass the crash line when known, otherwise the method's line range; the file is read at the revision when given
+ */
+export async function findExceptionHints(
+  exceptionType: string,
+  filePath: string,
+  range: { start: number; end: number },
+  revision?: SourceRevision,
+): Promise<ExceptionHint[]> {
+  const detector = DETECTORS[exceptionType.split(".").pop() ?? ""]
+  if (!detector) {
+    return []
+  }
+
+  const content = await readSourceFile(filePath, revision)
+  if (content === null) {
+    return []
+  }
+
+  const lines = content.split("\n")
+  const names = collectNames(content)
+  const hints: ExceptionHint[] = []
+
+  for (let line = Math.max(1, range.start); line <= Math.min(range.end, lines.length); line++) {
+    hints.push(...detector(lines[line - 1], line, names))
+  }
+
+  return hints
+}
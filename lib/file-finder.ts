@@ -1,13 +1,30 @@
-import { exec } from "child_process"
+import { exec, execFile } from "child_process"
 import { promisify } from "util"
 import * as fs from "fs"
 import * as path from "path"
+import { buildOutline, walkOutline, type OutlineNode } from "./csharp-outline"
+import { findTypeDeclarations, loadDeclarationIndex, loadRevisionIndex, resolveBaseTypes } from "./declaration-index"
+import { listRevisionFiles, readSourceFile, type SourceRevision } from "./git-revision"
+import { splitTopLevel, toCSharpTypeName, type FrameParameter, type StackTraceEntry } from "./stack-trace-parser"
 
 const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
 
-interface FileMatch {
+/**
+ * Build output directories never searched for source files
+ */
+const EXCLUDED_DIRS = new Set(["bin", "obj"])
+
+// How long a repository's tracked file list is reused before running git ls-files again
+const TRACKED_FILES_TTL_MS = 60 * 1000
+
+const trackedFilesCache = new Map<string, { files: Map<string, string>; loadedAt: number }>()
+
+export interface FileMatch {
   path: string
   score: number
+  // Line of the type declaration, for matches found in the declaration index
+  line?: number
 }
 
 /**
@@ -47,114 +64,784 @@ function calculateNamespaceScore(filePath: string, namespace: string, projectRoo
 }
 
 /**
- * Find source file for a given namespace with intelligent matching
- * When multiple files found, returns the one with highest namespace matching score
+ * Count trailing path segments shared by a candidate file and the source path recorded in a stack trace
+ * Build machines use different roots, so only the tail of the recorded path is comparable
+ */
+function calculatePathSuffixScore(filePath: string, sourcePath: string): number {
+  const fileParts = filePath.replace(/\\/g, "/").toLowerCase().split("/").reverse()
+  const sourceParts = sourcePath.replace(/\\/g, "/").toLowerCase().split("/").reverse()
+
+  let matches = 0
+  while (matches < fileParts.length && matches < sourceParts.length && fileParts[matches] === sourceParts[matches]) {
+    matches++
+  }
+
+  return matches
+}
+
+// Characters Windows and git never allow in a file name; names from stack traces containing them are rejected
+const INVALID_FILE_NAME_CHARS = /[<>:"/\\|?*\x00-\x1f]/
+
+/**
+ * Check that a file name taken from a stack trace could name a real file
+ */
+export function isValidFileName(fileName: string): boolean {
+  return fileName !== "" && fileName !== "." && fileName !== ".." && !INVALID_FILE_NAME_CHARS.test(fileName)
+}
+
+/**
+ * List files with the given name using git, so .gitignore rules are honored
+ * Includes untracked files that are not ignored. Returns null when projectRoot is not a git work tree
+ * Names match case-insensitively, like Windows build paths do; the name is passed as an argument, never through a shell
  */
-export async function findSourceFile(namespace: string, projectRoot: string): Promise<string | null> {
+async function gitListFiles(fileName: string, projectRoot: string): Promise<string[] | null> {
   try {
-    const parts = namespace.split(".")
-    const className = parts[parts.length - 1]
-    const fileName = `${className}.cs`
+    const { stdout } = await execFileAsync(
+      "git",
+      [
+        "ls-files",
+        "-z",
+        "--cached",
+        "--others",
+        "--exclude-standard",
+        "--",
+        `:(icase)${fileName}`,
+        `:(icase)*/${fileName}`,
+      ],
+      { cwd: projectRoot, maxBuffer: 10 * 1024 * 1024 },
+    )
+
+    return Array.from(new Set(stdout.split("\0").filter((p) => p.trim())))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * List every file tracked by git in projectRoot, or held by the commit when one is given,
+ * keyed by lower-cased relative path
+ * Cached briefly per root so a single analysis does not run git ls-files for every frame
+ */
+export async function listTrackedFiles(projectRoot: string, commit?: string): Promise<Map<string, string>> {
+  const key = commit ? `${projectRoot}@${commit}` : projectRoot
+  const cached = trackedFilesCache.get(key)
+  if (cached && Date.now() - cached.loadedAt < TRACKED_FILES_TTL_MS) {
+    return cached.files
+  }
+
+  const files = new Map<string, string>()
+  try {
+    const relativePaths = commit
+      ? Array.from((await listRevisionFiles(projectRoot, commit)).keys())
+      : (await execAsync("git ls-files -z", { cwd: projectRoot, maxBuffer: 100 * 1024 * 1024 })).stdout.split("\0")
+    for (const relativePath of relativePaths) {
+      if (relativePath) {
+        files.set(relativePath.toLowerCase(), relativePath)
+      }
+    }
+  } catch (error) {
+    console.error(`Error listing tracked files in ${projectRoot}${commit ? ` at ${commit}` : ""}:`, error)
+  }
 
-    const { stdout } = await execAsync(`dir /s /b "${fileName}"`, {
-      cwd: projectRoot,
-      maxBuffer: 10 * 1024 * 1024,
+  trackedFilesCache.set(key, { files, loadedAt: Date.now() })
+  return files
+}
+
+/**
+ * Convert simple .gitignore patterns into regular expressions matched against relative paths
+ * Negations and nested .gitignore files are not supported; git ls-files handles those when available
+ */
+function loadIgnorePatterns(projectRoot: string): RegExp[] {
+  const gitignorePath = path.join(projectRoot, ".gitignore")
+  if (!fs.existsSync(gitignorePath)) {
+    return []
+  }
+
+  return fs
+    .readFileSync(gitignorePath, "utf-8")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#") && !line.startsWith("!"))
+    .map((pattern) => {
+      const anchored = pattern.startsWith("/")
+      const body = pattern
+        .replace(/^\//, "")
+        .replace(/\/$/, "")
+        .replace(/\*\*\/|\*\*|\*|\?|[.+^${}()|[\]\\]/g, (token) => {
+          if (token === "**/") return "(?:.*/)?"
+          if (token === "**") return ".*"
+          if (token === "*") return "[^/]*"
+          if (token === "?") return "[^/]"
+          return `\\${token}`
+        })
+      return new RegExp(`${anchored ? "^" : "(?:^|/)"}${body}(?:/|$)`, "i")
     })
+}
 
-    const filePaths = stdout
-      .trim()
-      .split("\n")
-      .filter((p) => p.trim())
-      .map((p) => p.trim())
+/**
+ * Walk the project directory in pure Node, for roots that are not git work trees
+ * Collects files whose lower-cased name satisfies the given test
+ */
+async function walkForFiles(projectRoot: string, matchesName: (name: string) => boolean): Promise<string[]> {
+  const ignorePatterns = loadIgnorePatterns(projectRoot)
+  const matches: string[] = []
+  const pending = [""]
 
-    if (filePaths.length === 0) {
-      return null
+  while (pending.length > 0) {
+    const relativeDir = pending.pop() as string
+    let dirents: fs.Dirent[]
+    try {
+      dirents = await fs.promises.readdir(path.join(projectRoot, relativeDir), { withFileTypes: true })
+    } catch {
+      continue
     }
 
-    if (filePaths.length === 1) {
-      return filePaths[0]
+    for (const dirent of dirents) {
+      const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name
+      if (ignorePatterns.some((pattern) => pattern.test(relativePath))) {
+        continue
+      }
+
+      if (dirent.isDirectory()) {
+        if (dirent.name !== ".git" && !EXCLUDED_DIRS.has(dirent.name.toLowerCase())) {
+          pending.push(relativePath)
+        }
+      } else if (matchesName(dirent.name.toLowerCase())) {
+        matches.push(relativePath)
+      }
     }
+  }
 
-    // Multiple matches: score each and return best match
-    const scored: FileMatch[] = filePaths.map((filePath) => ({
-      path: filePath,
-      score: calculateNamespaceScore(filePath, namespace, projectRoot),
-    }))
+  return matches
+}
 
-    scored.sort((a, b) => b.score - a.score)
+/**
+ * List the files a commit holds whose lower-cased name satisfies the given test
+ */
+async function listRevisionFilesNamed(
+  projectRoot: string,
+  commit: string,
+  matchesName: (name: string) => boolean,
+): Promise<string[]> {
+  const files = await listRevisionFiles(projectRoot, commit)
+  return Array.from(files.keys()).filter((relativePath) => matchesName(path.posix.basename(relativePath).toLowerCase()))
+}
 
-    console.log(
-      `Found multiple ${className}.cs files. Using best match with score ${scored[0].score}: ${scored[0].path}`
-    )
+/**
+ * Check whether a relative path lies inside build output (bin/ or obj/)
+ */
+function isBuildOutput(relativePath: string): boolean {
+  return relativePath.split(/[\\/]/).some((segment) => EXCLUDED_DIRS.has(segment.toLowerCase()))
+}
+
+/**
+ * List every C# source file in projectRoot, or in the commit when one is given, outside build output,
+ * relative to the root
+ */
+async function listSourceFiles(projectRoot: string, commit?: string): Promise<string[]> {
+  const isSource = (name: string) => name.endsWith(".cs")
+  const relativePaths = commit
+    ? await listRevisionFilesNamed(projectRoot, commit, isSource)
+    : ((await gitListFiles("*.cs", projectRoot)) ?? (await walkForFiles(projectRoot, isSource)))
+  return relativePaths.filter((p) => p.toLowerCase().endsWith(".cs") && !isBuildOutput(p))
+}
 
-    return scored[0].path
+/**
+ * Load the declaration index of every C# file in a repository, or in one of its commits
+ */
+export function loadRepositoryIndex(projectRoot: string, commit?: string) {
+  if (commit) {
+    return loadRevisionIndex(projectRoot, commit, async () => {
+      const blobs = await listRevisionFiles(projectRoot, commit)
+      const relativePaths = await listSourceFiles(projectRoot, commit)
+      return new Map(relativePaths.map((relativePath) => [relativePath, blobs.get(relativePath) as string]))
+    })
+  }
+  return loadDeclarationIndex(projectRoot, () => listSourceFiles(projectRoot))
+}
+
+/**
+ * Declarations of a type ("Namespace.Class" or "Namespace.Outer.Inner") in the repository's declaration index,
+ * with files named after the class and matching the namespace by path first
+ */
+async function lookupDeclarations(typeName: string, projectRoot: string, commit?: string) {
+  try {
+    const index = await loadRepositoryIndex(projectRoot, commit)
+    const className = typeName.replace(/`\d+/g, "").split(".").pop() as string
+
+    return findTypeDeclarations(index, typeName)
+      .map(({ relativePath, declaration }) => {
+        const filePath = path.join(projectRoot, relativePath)
+        const score =
+          (path.basename(filePath).toLowerCase() === `${className.toLowerCase()}.cs` ? 10000 : 0) +
+          calculateNamespaceScore(filePath, typeName, projectRoot)
+        return { path: filePath, declaration, score }
+      })
+      .sort((a, b) => b.score - a.score)
   } catch (error) {
-    console.error(`Error finding source file for ${namespace}:`, error)
+    console.error(`Error looking up declarations of ${typeName}:`, error)
+    return []
+  }
+}
+
+/**
+ * Find the files that declare a frame's type ("Namespace.Class"), best match first
+ * Partial types return every file declaring a part
+ */
+export async function findDeclaringFiles(
+  namespace: string,
+  projectRoot: string,
+  commit?: string,
+): Promise<FileMatch[]> {
+  return (await lookupDeclarations(namespace, projectRoot, commit)).map(({ path, score, declaration }) => ({
+    path,
+    score,
+    line: declaration.line,
+  }))
+}
+
+/**
+ * Files declaring parts of a partial type, or an empty list when the type is not partial
+ */
+export async function findPartialTypeFiles(
+  typeName: string,
+  projectRoot: string,
+  commit?: string,
+): Promise<string[]> {
+  const declarations = await lookupDeclarations(typeName, projectRoot, commit)
+  return declarations.some((match) => match.declaration.partial)
+    ? Array.from(new Set(declarations.map((match) => match.path)))
+    : []
+}
+
+export type FrameTypeName = Pick<StackTraceEntry, "namespace" | "nestedType" | "explicitInterface">
+
+/**
+ * Split a frame's qualified name into its type and explicitly implemented interface by the types the repository
+ * declares: Ns.Foo.MyCompany.IBar is Ns.Foo implementing MyCompany.IBar when Ns.Foo is declared, and
+ * Acme.Web.System.IOHelper stays a type when it is declared itself
+ * Returns null when the name does not end with an I-prefixed name or no split names a declared type
+ */
+export async function splitDeclaredInterface(
+  frame: FrameTypeName,
+  projectRoot: string,
+  commit?: string,
+): Promise<FrameTypeName | null> {
+  const outer = frame.namespace.split(".")
+  const segments = [...outer, ...(frame.nestedType?.split(".") ?? []), ...(frame.explicitInterface?.split(".") ?? [])]
+  // Nested types were joined with "+", so they only follow the outer type when the frame had some
+  const nestedStart = frame.nestedType ? outer.length : segments.length
+  if (!/^I[A-Z]\w*$/.test(segments[segments.length - 1])) {
     return null
   }
+
+  try {
+    const index = await loadRepositoryIndex(projectRoot, commit)
+    // Longest declared type in front of an interface first; the whole name only when no split fits, since the
+    // interface itself is usually declared too
+    const splits = [...segments.keys()].slice(1).reverse()
+    for (const split of [...splits, segments.length]) {
+      if (findTypeDeclarations(index, segments.slice(0, split).join(".")).length === 0) {
+        continue
+      }
+      const nested = segments.slice(nestedStart, split)
+      return {
+        namespace: segments.slice(0, Math.min(split, nestedStart)).join("."),
+        nestedType: nested.length > 0 ? nested.join(".") : undefined,
+        explicitInterface: split < segments.length ? segments.slice(split).join(".") : undefined,
+      }
+    }
+  } catch (error) {
+    console.error(`Error splitting the explicit interface of ${segments.join(".")}:`, error)
+  }
+  return null
 }
 
 /**
- * Extract method from file and find its line range
- * Handles public, private, async methods, properties, etc.
+ * Score every source file that could hold a namespace's class, best match first
+ * Uses git ls-files when projectRoot is a git work tree, otherwise walks the file system; lists the commit's files
+ * when one is given
+ * Files are ranked by namespace matching score; a source path from the stack trace names the file directly and
+ * ranks candidates by shared path tail
  */
-export async function findMethodLineRange(
-  filePath: string,
-  methodName: string,
-): Promise<{ start: number; end: number } | null> {
+export async function rankSourceFiles(
+  namespace: string,
+  projectRoot: string,
+  sourcePath?: string,
+  commit?: string,
+): Promise<FileMatch[]> {
   try {
-    if (!fs.existsSync(filePath)) {
-      return null
+    const parts = namespace.split(".")
+    const className = parts[parts.length - 1]
+    const fileName = sourcePath ? path.win32.basename(sourcePath) : `${className}.cs`
+    if (!isValidFileName(fileName)) {
+      console.warn(`Skipping file search for ${namespace}: invalid file name "${fileName}"`)
+      return []
     }
+    const isNamed = (name: string) => name === fileName.toLowerCase()
 
-    const content = fs.readFileSync(filePath, "utf-8")
-    const lines = content.split("\n")
+    const relativePaths = commit
+      ? await listRevisionFilesNamed(projectRoot, commit, isNamed)
+      : ((await gitListFiles(fileName, projectRoot)) ?? (await walkForFiles(projectRoot, isNamed)))
 
-    // Flexible method pattern matching for various C# method signatures
-    let methodStartLine = -1
-    const methodPattern = new RegExp(
-      `(public|private|protected|internal)?\\s*(async\\s*)?(static\\s*)?.*?\\s+${methodName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*\\(`,
-      "i",
-    )
+    const filePaths = relativePaths
+      .filter((p) => path.basename(p).toLowerCase() === fileName.toLowerCase())
+      .filter((p) => !isBuildOutput(p))
+      .map((p) => path.join(projectRoot, p))
 
-    for (let i = 0; i < lines.length; i++) {
-      if (methodPattern.test(lines[i])) {
-        methodStartLine = i
-        break
-      }
+    const scored: FileMatch[] = filePaths.map((filePath) => ({
+      path: filePath,
+      score:
+        calculateNamespaceScore(filePath, namespace, projectRoot) +
+        (sourcePath ? calculatePathSuffixScore(filePath, sourcePath) * 1000 : 0),
+    }))
+
+    return scored.sort((a, b) => b.score - a.score)
+  } catch (error) {
+    console.error(`Error finding source file for ${namespace}:`, error)
+    return []
+  }
+}
+
+// C# operator tokens for the op_* metadata names
+const OPERATOR_TOKENS: Record<string, string> = {
+  op_Addition: "+",
+  op_Subtraction: "-",
+  op_Multiply: "*",
+  op_Division: "/",
+  op_Modulus: "%",
+  op_Equality: "==",
+  op_Inequality: "!=",
+  op_LessThan: "<",
+  op_GreaterThan: ">",
+  op_LessThanOrEqual: "<=",
+  op_GreaterThanOrEqual: ">=",
+  op_UnaryNegation: "-",
+  op_UnaryPlus: "+",
+  op_LogicalNot: "!",
+  op_OnesComplement: "~",
+  op_Increment: "++",
+  op_Decrement: "--",
+  op_True: "true",
+  op_False: "false",
+  op_BitwiseAnd: "&",
+  op_BitwiseOr: "|",
+  op_ExclusiveOr: "^",
+  op_LeftShift: "<<",
+  op_RightShift: ">>",
+}
+
+export type MethodLookup = Pick<
+  StackTraceEntry,
+  | "namespace"
+  | "methodName"
+  | "nestedType"
+  | "memberKind"
+  | "explicitInterface"
+  | "typedParameters"
+  | "compilerGenerated"
+  | "localFunction"
+>
+
+/**
+ * Located declaration; confidence drops below 1 when several overloads fit the frame equally well
+ */
+export interface MethodLocation {
+  start: number
+  end: number
+  // Declarations with the frame's name in its type, and how surely the chosen one is the frame's
+  overloadCount: number
+  confidence: number
+}
+
+/**
+ * C# type reduced for comparison: names without namespaces and mapped to aliases, generic arguments kept
+ * Frames printed without generic arguments (List`1) keep only the arity
+ */
+interface ComparableType {
+  name: string
+  arity: number
+  args?: ComparableType[]
+  // Nullable<T> or T?
+  nullable: boolean
+  // Array ranks: "[]", "[,][]"
+  arrays: string
+}
+
+/**
+ * Parse a declared or frame parameter type: List<int>, Dictionary<string, List<Order>>, int?, Order[], (int, string)
+ * and List`1 as frames print it; a trailing ref marker (&) is ignored
+ */
+function parseTypeName(type: string): ComparableType {
+  const trimmed = type.trim().replace(/&$/, "").replace(/^global::/, "")
+  // A "?" after the ranks annotates the array itself, which is a reference type
+  const ranks = trimmed.match(/(?:\[[,\s]*\])+\??$/)?.[0] ?? ""
+  const arrays = ranks.replace(/[\s?]/g, "")
+  const element = trimmed.slice(0, trimmed.length - ranks.length).trim()
+  const nullable = element.endsWith("?")
+  const base = nullable ? element.slice(0, -1).trim() : element
+
+  // Tuples are ValueTuple with the element types as arguments; element names are dropped
+  if (base.startsWith("(") && base.endsWith(")")) {
+    const args = splitTopLevel(base.slice(1, -1)).map((item) => parseTypeName(declaredParameterType(item)))
+    return { name: "ValueTuple", arity: args.length, args, nullable, arrays }
+  }
+
+  const generic = base.match(/^([^<`]+?)\s*(?:`(\d+)|<(.*)>)?$/)
+  const name = (generic?.[1] ?? base).split(/[.:+]/).pop() as string
+  const args = generic?.[3] !== undefined ? splitTopLevel(generic[3]).map(parseTypeName) : undefined
+  const arity = args?.length ?? Number(generic?.[2] ?? 0)
+
+  if (name === "Nullable" && args?.length === 1 && !args[0].arrays) {
+    return { ...args[0], nullable: true, arrays }
+  }
+  return { name: toCSharpTypeName(name), arity, args, nullable, arrays }
+}
+
+/**
+ * Check whether a declared parameter is passed by reference (ref, out, in), which frames print with a trailing "&"
+ */
+function isDeclaredByRef(parameter: string): boolean {
+  return /^(?:\[[^\]]*\]\s*)*(?:(?:this|scoped)\s+)*(?:ref|out|in)\s/.test(parameter.trim())
+}
+
+/**
+ * Extract the type of a declared parameter: drops attributes, modifiers, the name and default values
+ */
+function declaredParameterType(parameter: string): string {
+  const withoutDefault = splitTopLevel(parameter, "=")[0] ?? parameter
+  const withoutAttributes = withoutDefault.trim().replace(/^(?:\[[^\]]*\]\s*)+/, "")
+  const withoutModifiers = withoutAttributes.replace(/^(?:(?:this|ref|out|in|params|scoped|readonly)\s+)+/, "")
+  const match = withoutModifiers.match(/^(.*\S)\s+@?[A-Za-z_]\w*$/)
+  return match ? match[1] : withoutModifiers
+}
+
+// Aliases of value types, whose nullable form frames always print as Nullable`1
+const VALUE_TYPE_ALIASES = new Set([
+  "bool",
+  "byte",
+  "sbyte",
+  "char",
+  "decimal",
+  "double",
+  "float",
+  "short",
+  "ushort",
+  "int",
+  "uint",
+  "long",
+  "ulong",
+  "nint",
+  "nuint",
+])
+
+/**
+ * Check whether a parsed frame type fits a parsed declared type
+ * Nullable annotations match Nullable`1, and also the plain type for reference types; frames without generic
+ * arguments match on the arity
+ */
+function typesMatch(frame: ComparableType, declared: ComparableType): boolean {
+  if (frame.arrays !== declared.arrays) {
+    return false
+  }
+  if (frame.name === "Nullable" && !frame.args) {
+    return declared.nullable
+  }
+  if (frame.nullable !== declared.nullable && (frame.nullable || VALUE_TYPE_ALIASES.has(declared.name))) {
+    return false
+  }
+  if (frame.name !== declared.name || frame.arity !== declared.arity) {
+    return false
+  }
+  return !frame.args || !declared.args || frame.args.every((arg, i) => typesMatch(arg, declared.args![i]))
+}
+
+/**
+ * Check whether a frame parameter type fits a declared type
+ */
+function parameterTypesMatch(frameType: string, declaredType: string): boolean {
+  return typesMatch(parseTypeName(frameType), parseTypeName(declaredType))
+}
+
+/**
+ * Score how well a declaration's parameters fit the frame's: 0 for a different count, 1 when every type matches
+ */
+function scoreOverload(frameParameters: FrameParameter[], declared: string[]): number {
+  if (frameParameters.length !== declared.length) {
+    return 0
+  }
+
+  const matches = frameParameters.filter(
+    (parameter, i) =>
+      !!parameter.byRef === isDeclaredByRef(declared[i]) &&
+      parameterTypesMatch(parameter.type, declaredParameterType(declared[i])),
+  ).length
+  return (1 + matches) / (1 + declared.length)
+}
+
+/**
+ * Pick the declaration whose parameters fit the frame best among overload candidates
+ * Frames without usable parameters (compiler-generated code) pick the first candidate
+ */
+function chooseOverload(candidates: OutlineNode[], entry: MethodLookup) {
+  if (candidates.length === 1) {
+    return { node: candidates[0], confidence: 1 }
+  }
+
+  const frameParameters = entry.compilerGenerated ? undefined : entry.typedParameters
+  if (!frameParameters) {
+    return { node: candidates[0], confidence: 1 / candidates.length }
+  }
+
+  const scored = candidates.map((node) => ({ node, score: scoreOverload(frameParameters, node.parameters ?? []) }))
+  const best = Math.max(...scored.map((candidate) => candidate.score))
+  const tied = scored.filter((candidate) => candidate.score === best)
+
+  return { node: tied[0].node, confidence: Math.round((best / tied.length) * 100) / 100 }
+}
+
+/**
+ * Last segment of a type name without generic arguments or arity: "System.IList<T>" becomes "IList"
+ */
+function shortTypeName(name: string): string {
+  return name.replace(/<.*>/, "").replace(/`\d+/, "").split(".").pop() as string
+}
+
+/**
+ * Types with the given name among nodes, looking through namespaces but not into other types
+ */
+function findTypes(nodes: OutlineNode[], name: string): OutlineNode[] {
+  return nodes.flatMap((node) => {
+    if (node.kind === "namespace") {
+      return findTypes(node.children, name)
     }
+    return node.kind === "type" && node.name === name ? [node] : []
+  })
+}
 
-    if (methodStartLine === -1) {
-      console.warn(`Method ${methodName} not found in ${filePath}`)
-      return null
+/**
+ * Check whether an outline node declares the frame's member
+ */
+function declaresMember(node: OutlineNode, entry: MethodLookup): boolean {
+  // Frames always run code, never a body-less declaration (abstract, interface or partial method)
+  if (node.declarationOnly) {
+    return false
+  }
+
+  // Explicit implementations are declared as "IBar.Baz"
+  if (
+    entry.explicitInterface &&
+    (!node.explicitInterface || shortTypeName(node.explicitInterface) !== shortTypeName(entry.explicitInterface))
+  ) {
+    return false
+  }
+
+  switch (entry.memberKind) {
+    case "constructor":
+      return node.kind === "constructor" && !node.modifiers.includes("static")
+    case "static-constructor":
+      return node.kind === "constructor" && node.modifiers.includes("static")
+    case "getter":
+    case "setter":
+      // get_Item/set_Item are indexers: "public T this[int index]"
+      return (
+        (node.kind === "property" && node.name === entry.methodName) ||
+        (node.kind === "indexer" && entry.methodName === "Item")
+      )
+    case "operator": {
+      if (node.kind !== "operator") {
+        return false
+      }
+      if (entry.methodName === "op_Implicit" || entry.methodName === "op_Explicit") {
+        return node.name.startsWith(`${entry.methodName.slice(3).toLowerCase()} operator `)
+      }
+      return node.name === `operator ${OPERATOR_TOKENS[entry.methodName]}`
     }
+  }
+
+  return node.kind === "method" && node.name === entry.methodName
+}
 
-    // Find method end by tracking braces
-    let braceCount = 0
-    let methodEndLine = methodStartLine
-    let foundOpeningBrace = false
+/**
+ * Members of the frame's type that could declare it
+ * Falls back to every member in the file when the type is not declared there (e.g. partial classes split by file)
+ */
+function findMemberCandidates(outline: OutlineNode[], entry: MethodLookup) {
+  // Narrow to the declaring type, then to each nested type, one level at a time
+  const typePath = [shortTypeName(entry.namespace), ...(entry.nestedType?.split(".").map(shortTypeName) ?? [])]
+  let types = findTypes(outline, typePath[0])
+  for (const typeName of typePath.slice(1)) {
+    types = types.flatMap((type) => type.children.filter((child) => child.kind === "type" && child.name === typeName))
+  }
+
+  if (types.length > 0) {
+    // Members of types nested inside the frame's type are not its members
+    return { types, candidates: types.flatMap((type) => type.children.filter((child) => declaresMember(child, entry))) }
+  }
+
+  const candidates: OutlineNode[] = []
+  walkOutline(outline, (node, parents) => {
+    const insideMember = parents.some((parent) => parent.kind !== "namespace" && parent.kind !== "type")
+    if (!insideMember && declaresMember(node, entry)) {
+      candidates.push(node)
+    }
+  })
+  return { types, candidates }
+}
 
-    for (let i = methodStartLine; i < lines.length; i++) {
-      const line = lines[i]
-      braceCount += (line.match(/{/g) || []).length
-      braceCount -= (line.match(/}/g) || []).length
+/**
+ * Narrow a member's range to the part the frame ran: a property's get or set accessor, or a local function
+ * Lambdas cannot be told apart from the frame name, so they keep the enclosing member's range
+ */
+function narrowMember(node: OutlineNode, entry: MethodLookup): OutlineNode {
+  if (entry.memberKind === "getter" || entry.memberKind === "setter") {
+    const names = entry.memberKind === "getter" ? ["get"] : ["set", "init"]
+    return node.children.find((child) => child.kind === "accessor" && names.includes(child.name)) ?? node
+  }
 
-      if (braceCount > 0) {
-        foundOpeningBrace = true
+  if (entry.localFunction) {
+    let local: OutlineNode | null = null
+    walkOutline(node.children, (child) => {
+      if (!local && child.kind === "local-function" && child.name === entry.localFunction) {
+        local = child
       }
+    })
+    return local ?? node
+  }
+
+  return node
+}
+
+/**
+ * Extract method from file and find its line range
+ * Uses the C# declaration outline, so braces in strings, comments and inactive #if branches do not
+ * shift boundaries; handles nested types, constructors, property accessors, indexers, operators,
+ * explicit interface implementations and local functions
+ * Overloads are told apart by the frame's parameter types and count
+ * Reads the file at the revision's commit when one is given
+ */
+export async function findMethodLineRange(
+  filePath: string,
+  entry: MethodLookup,
+  revision?: SourceRevision,
+): Promise<MethodLocation | null> {
+  try {
+    const content = await readSourceFile(filePath, revision)
+    if (content === null) {
+      return null
+    }
+
+    const outline = buildOutline(content)
+    const { types, candidates } = findMemberCandidates(outline, entry)
 
-      if (foundOpeningBrace && braceCount === 0) {
-        methodEndLine = i
-        break
+    if (candidates.length === 0) {
+      // No explicit constructor: field initializers and primary constructors belong to the type declaration
+      if (types.length > 0 && entry.memberKind?.endsWith("constructor")) {
+        return { start: types[0].startLine, end: types[0].endLine, overloadCount: 1, confidence: 1 }
       }
+      console.warn(`Method ${entry.methodName} not found in ${filePath}`)
+      return null
     }
 
-    return {
-      start: methodStartLine + 1,
-      end: Math.min(methodEndLine + 1, lines.length),
+    const { node, confidence } = chooseOverload(candidates, entry)
+    if (confidence < 1) {
+      console.warn(
+        `Method ${entry.methodName} has ${candidates.length} overloads in ${filePath}; chose line ${node.startLine} with confidence ${confidence}`,
+      )
     }
+
+    const range = narrowMember(node, entry)
+    return { start: range.startLine, end: range.endLine, overloadCount: candidates.length, confidence }
   } catch (error) {
     console.error(`Error finding method line range in ${filePath}:`, error)
     return null
   }
 }
+
+/**
+ * Find a member in the first of several files that declares it, e.g. the parts of a partial type
+ * Returns the file that held the member along with its location
+ */
+export async function findMethodInFiles(
+  filePaths: string[],
+  entry: MethodLookup,
+  revision?: SourceRevision,
+): Promise<{ filePath: string; location: MethodLocation } | null> {
+  for (const filePath of filePaths) {
+    const location = await findMethodLineRange(filePath, entry, revision)
+    if (location) {
+      return { filePath, location }
+    }
+  }
+  return null
+}
+
+// How far up a type hierarchy the inherited member search goes
+const MAX_INHERITANCE_DEPTH = 10
+
+/**
+ * Search a type's base classes and interfaces, breadth first, for a member its own files do not declare
+ * Bases are resolved from the declarations' using directives; interfaces count only with default (bodied) members
+ * Returns the file and location found, with the chain of fully qualified type names leading to the declaring type
+ */
+export async function findInheritedMember(
+  typeName: string,
+  projectRoot: string,
+  entry: MethodLookup,
+  commit?: string,
+): Promise<{ filePath: string; location: MethodLocation; chain: string[] } | null> {
+  // Constructors are never inherited
+  if (entry.memberKind?.endsWith("constructor")) {
+    return null
+  }
+
+  try {
+    const index = await loadRepositoryIndex(projectRoot, commit)
+    const revision = commit ? { root: projectRoot, commit } : undefined
+    const visited = new Set([typeName.replace(/`\d+/g, "")])
+    let level = [[typeName.replace(/`\d+/g, "")]]
+
+    for (let depth = 0; depth < MAX_INHERITANCE_DEPTH && level.length > 0; depth++) {
+      const next: string[][] = []
+      for (const chain of level) {
+        for (const baseType of resolveBaseTypes(index, chain[chain.length - 1])) {
+          if (visited.has(baseType)) {
+            continue
+          }
+          visited.add(baseType)
+
+          const files = findTypeDeclarations(index, baseType).map(({ relativePath }) => path.join(projectRoot, relativePath))
+          // A nested base ("Ns.Outer.Inner") is looked up as its outermost type plus the nested path
+          const segments = baseType.split(".")
+          const outer = segments.findIndex((_, i) => index.types.has(segments.slice(0, i + 1).join(".")))
+          const found = await findMethodInFiles(
+            Array.from(new Set(files)),
+            {
+              ...entry,
+              namespace: segments.slice(0, outer + 1).join("."),
+              nestedType: segments.slice(outer + 1).join(".") || undefined,
+            },
+            revision,
+          )
+          if (found) {
+            return { ...found, chain: [...chain, baseType] }
+          }
+          next.push([...chain, baseType])
+        }
+      }
+      level = next
+    }
+  } catch (error) {
+    console.error(`Error searching base types of ${typeName}:`, error)
+  }
+
+  return null
+}
+
+/**
+ * Count lines in a file, or in its version at the revision's commit, used to keep blame ranges inside the file
+ */
+export async function countFileLines(filePath: string, revision?: SourceRevision): Promise<number> {
+  const content = await readSourceFile(filePath, revision)
+  return content === null ? 0 : content.split("\n").length
+}
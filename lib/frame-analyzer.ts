@@ -0,0 +1,351 @@
+/**
+ * Analysis of a single stack trace entry: locate file, locate method, query git history
+ * All state is read from and written to the run's AnalysisContext
+ */
+
+import type { AnalysisContext } from "./analysis-context"
+import type { AnalysisSummary } from "./analysis-stream"
+import type { StackTraceEntry, CompilerGeneratedKind, MemberKind } from "./stack-trace-parser"
+import { findInheritedMember, findMethodInFiles, findPartialTypeFiles, countFileLines } from "./file-finder"
+import { resolveExplicitInterface, resolveSourceFile, type ResolutionMethod } from "./repository-resolver"
+import { blameLines, summarizeBlame, type BlameLineResult, type GitBlameAnalysis } from "./git-blame-refined"
+import { getMethodHistory, type MethodHistoryCommit } from "./git-method-history"
+import { findExceptionHints, type ExceptionHint } from "./exception-hints"
+import { toRepositoryPath } from "./git-revision"
+import { findFrameCandidates, type FrameCandidate } from "./fuzzy-search"
+import type { RepositoryConfig } from "./config"
+
+export interface AnalysisResult {
+  // Exception in the parsed chain that the frame belongs to (ParsedException.id)
+  exceptionId: string
+  namespace: string
+  methodName: string
+  // Compiler-generated frames are reported against the user-written method they came from
+  compilerGenerated?: CompilerGeneratedKind
+  localFunction?: string
+  // Nested type, special member kind and explicitly implemented interface, as parsed from the frame
+  nestedType?: string
+  memberKind?: MemberKind
+  explicitInterface?: string
+  // Name of the repository the file was found in
+  repository?: string
+  // How the file was found: recorded trace path, mapped build path, or name search
+  resolution?: ResolutionMethod
+  // Commit the file was read and blamed at; unset when the repository's working tree was used
+  commit?: string
+  // File holding the member; for partial types it may differ from the file the frame resolved to
+  filePath: string
+  // filePath relative to the repository root with "/" separators, used to re-run the frame and to diff commits
+  relativePath?: string
+  // Every file declaring a part of the frame's partial type
+  partialFiles?: string[]
+  // Types from the frame's type up to the base class or interface that declared the member, when inherited
+  inheritanceChain?: string[]
+  fileFound: boolean
+  lineRange: { start: number; end: number } | null
+  methodFound: boolean
+  // Set when lineRange was typed by the user instead of located
+  manualLineRange?: boolean
+  // Overloads with the frame's method name, and how surely the located one matches the frame's parameters
+  overloadCount?: number
+  overloadConfidence?: number
+  // Line recorded in the frame ("in ...:line N"), and the window around it that was blamed
+  crashLine?: number
+  blameRange?: { start: number; end: number }
+  // Expressions that can raise the exception, flagged on the frame that threw it
+  hints?: ExceptionHint[]
+  // Other files the user can switch to: every scored file of the search that found the source file, or similarly
+  // named types declaring the method when none was found
+  candidates?: FrameCandidate[]
+  gitBlameResults: GitBlameAnalysis[]
+  // The method's lines and the blamed window, each with the commit that last changed it, for the source panel
+  sourceLines?: BlameLineResult[]
+  // Every commit since the start date that touched the method, with its diff; set in method history mode
+  methodHistory?: MethodHistoryCommit[]
+  error?: string
+}
+
+export interface AnalyzeEntryOptions {
+  exceptionId?: string
+  // Exception type, passed only for the frame that threw it (the first frame of its exception)
+  exceptionType?: string
+  // File picked by the user for the frame, skipping source file resolution; typeName names the type to search
+  // when it differs from the frame's (a renamed class)
+  file?: { repository: RepositoryConfig; filePath: string; typeName?: string }
+  // Exact lines picked by the user, skipping method location
+  lineRange?: { start: number; end: number }
+}
+
+// Steps per stack trace entry: find file, find method, query git history
+export const STEPS_PER_ENTRY = 3
+
+/**
+ * Fields identifying the frame, shared by every result recorded for it
+ */
+function describeFrame(entry: StackTraceEntry, exceptionId: string) {
+  return {
+    exceptionId,
+    namespace: entry.namespace,
+    methodName: entry.methodName,
+    compilerGenerated: entry.compilerGenerated,
+    localFunction: entry.localFunction,
+    nestedType: entry.nestedType,
+    memberKind: entry.memberKind,
+    explicitInterface: entry.explicitInterface,
+  }
+}
+
+/**
+ * Analyze one entry and record its result in the context
+ * Always consumes exactly STEPS_PER_ENTRY progress steps, skipping the ones that do not run
+ */
+export async function analyzeEntry(
+  context: AnalysisContext<AnalysisResult>,
+  parsedEntry: StackTraceEntry,
+  { exceptionId = "0", exceptionType, file, lineRange: pickedRange }: AnalyzeEntryOptions = {},
+): Promise<void> {
+  const { tracker, repositories, routes, pathMappings, dateRange, contextLines, commits, methodHistory: withHistory } = context
+  // The parser only guesses where an explicit implementation's interface starts; the declared types decide
+  const entry = await resolveExplicitInterface(parsedEntry, repositories, routes, commits)
+  let currentStep = 0
+  let remainingSteps = STEPS_PER_ENTRY
+
+  try {
+    // Step: Find source file
+    const fileName = entry.sourcePath ?? `${entry.namespace.split(".").pop()}.cs`
+    currentStep = tracker.startStep("Find Source File", `Locating ${fileName} for ${entry.namespace}`)
+    remainingSteps--
+
+    const resolved = file
+      ? { repository: file.repository, filePath: file.filePath, resolution: "manual" as const }
+      : await resolveSourceFile(entry, repositories, routes, pathMappings, commits)
+
+    if (!resolved) {
+      // Offer similarly named types declaring the method, so the user can pick the file
+      const candidates = await findFrameCandidates(entry, repositories, commits)
+      tracker.errorStep(
+        currentStep,
+        `Source file not found for ${entry.namespace}. ${candidates.length > 0 ? `${candidates.length} similar declarations found.` : "Manual review needed."}`,
+      )
+      tracker.skipSteps(remainingSteps)
+
+      context.addResult({
+        ...describeFrame(entry, exceptionId),
+        filePath: "",
+        fileFound: false,
+        lineRange: null,
+        methodFound: false,
+        candidates: candidates.length > 0 ? candidates : undefined,
+        gitBlameResults: [],
+        error:
+          candidates.length > 0
+            ? "Source file not found. Pick one of the similar declarations or verify in codebase."
+            : "Source file not found. Please manually verify in codebase.",
+      })
+      return
+    }
+
+    const { repository, resolution } = resolved
+    // Everything below reads and blames the file at the repository's commit, when the analysis has one
+    const commit = commits.get(repository.name)
+    const revision = commit ? { root: repository.root, commit } : undefined
+    tracker.completeStep(
+      currentStep,
+      `Found in ${repository.name}${commit ? ` at ${commit.slice(0, 8)}` : ""} (${resolution}): ${resolved.filePath}`,
+    )
+
+    // Step: Find method location
+    currentStep = tracker.startStep("Find Method Location", `Searching for method ${entry.methodName}`)
+    remainingSteps--
+
+    // Partial types spread members over several files; a recorded source path already names the right one
+    const typeName = entry.nestedType ? `${entry.namespace}.${entry.nestedType}` : entry.namespace
+    // Lines picked by the user replace the search
+    const searchFiles = !entry.sourcePath && !file && !pickedRange
+    const partialFiles = searchFiles ? await findPartialTypeFiles(typeName, repository.root, commit) : []
+    const lookup = file?.typeName ? { ...entry, namespace: file.typeName, nestedType: undefined } : entry
+    const found = pickedRange
+      ? null
+      : await findMethodInFiles(
+          [resolved.filePath, ...partialFiles.filter((partialFile) => partialFile !== resolved.filePath)],
+          lookup,
+          revision,
+        )
+    // Members missing from the type's own files may come from a base class or a default interface method
+    const inherited =
+      found || !searchFiles ? null : await findInheritedMember(typeName, repository.root, entry, commit)
+    const filePath = found?.filePath ?? inherited?.filePath ?? resolved.filePath
+    const location = found?.location ?? inherited?.location ?? null
+    const inheritanceChain = inherited?.chain
+    // Picked lines are clamped to the file; a range starting past its end picks nothing
+    const lineCount = pickedRange ? await countFileLines(filePath, revision) : 0
+    const lineRange = pickedRange
+      ? pickedRange.start > lineCount
+        ? null
+        : {
+            start: Math.max(1, pickedRange.start),
+            end: Math.min(Math.max(pickedRange.start, pickedRange.end), lineCount),
+          }
+      : location && { start: location.start, end: location.end }
+    const crashLine = entry.lineNumber
+    const relativePath = toRepositoryPath(repository.root, filePath)
+    const candidates = resolved.candidates
+
+    const searched = partialFiles.length > 1 ? ` in ${partialFiles.length} partial files` : ""
+    if (!lineRange && (!crashLine || pickedRange)) {
+      tracker.errorStep(
+        currentStep,
+        pickedRange
+          ? `Lines ${pickedRange.start}-${pickedRange.end} picked by the user start past the end of the file (${lineCount} lines)`
+          : `Method ${entry.methodName} not found${searched} or in its base types. Manual review needed.`,
+      )
+      tracker.skipSteps(remainingSteps)
+
+      context.addResult({
+        ...describeFrame(entry, exceptionId),
+        repository: repository.name,
+        resolution,
+        commit,
+        filePath,
+        relativePath,
+        partialFiles: partialFiles.length > 1 ? partialFiles : undefined,
+        fileFound: true,
+        lineRange: null,
+        methodFound: false,
+        candidates,
+        gitBlameResults: [],
+        error: pickedRange
+          ? `The picked lines start past the end of the file, which has ${lineCount} lines.`
+          : "Method not found in file or in base types declared in the repository.",
+      })
+      return
+    }
+
+    const heldBy = inheritanceChain
+      ? ` in base type ${inheritanceChain[inheritanceChain.length - 1]}`
+      : filePath !== resolved.filePath
+        ? ` in partial declaration ${filePath}`
+        : ""
+    if (pickedRange && lineRange) {
+      tracker.completeStep(currentStep, `Using lines ${lineRange.start}-${lineRange.end} picked by the user`)
+    } else if (location && location.confidence < 1) {
+      tracker.completeStep(
+        currentStep,
+        `Found at lines ${location.start}-${location.end}${heldBy} (1 of ${location.overloadCount} overloads, confidence ${Math.round(location.confidence * 100)}%)`,
+      )
+    } else if (lineRange) {
+      tracker.completeStep(currentStep, `Found at lines ${lineRange.start}-${lineRange.end}${heldBy}`)
+    } else {
+      tracker.errorStep(currentStep, `Method ${entry.methodName} not found. Using crash line ${crashLine} from trace.`)
+    }
+
+    // Blame only the crash line and its context window when the frame records a line number
+    const blameRange =
+      crashLine && !pickedRange
+        ? {
+            start: Math.max(1, crashLine - contextLines),
+            end: Math.min(crashLine + contextLines, Math.max(await countFileLines(filePath, revision), crashLine)),
+          }
+        : (lineRange as { start: number; end: number })
+
+    // Step: Query git blame
+    currentStep = tracker.startStep(
+      "Query Git History",
+      `Analyzing git blame for lines ${blameRange.start}-${blameRange.end}${withHistory ? " and method history" : ""}`,
+    )
+    remainingSteps--
+
+    // Blame runs in the repository the file was resolved from, once over the method and the blamed window; only the
+    // window's commits are listed
+    const sourceRange = lineRange
+      ? { start: Math.min(lineRange.start, blameRange.start), end: Math.max(lineRange.end, blameRange.end) }
+      : blameRange
+    const sourceLines = await blameLines(filePath, sourceRange.start, sourceRange.end, dateRange, repository.root, commit)
+    const gitBlameResults = summarizeBlame(
+      sourceLines.filter((line) => line.lineNumber >= blameRange.start && line.lineNumber <= blameRange.end),
+    )
+
+    // History covers the whole method, so commits outside the crash window are found too
+    const historyRange = lineRange ?? blameRange
+    const methodHistory = withHistory
+      ? await getMethodHistory(filePath, historyRange.start, historyRange.end, dateRange, repository.root, commit)
+      : undefined
+
+    const changesInRange = gitBlameResults.filter((g) => g.inDateRange).length
+
+    const hintRange = crashLine ? { start: crashLine, end: crashLine } : lineRange
+    const hints =
+      exceptionType && hintRange ? await findExceptionHints(exceptionType, filePath, hintRange, revision) : undefined
+
+    tracker.completeStep(
+      currentStep,
+      `Found ${gitBlameResults.length} commits (${changesInRange} in date range)${methodHistory ? `, ${methodHistory.length} in method history` : ""}`,
+    )
+
+    context.addResult({
+      ...describeFrame(entry, exceptionId),
+      repository: repository.name,
+      resolution,
+      commit,
+      filePath,
+      relativePath,
+      partialFiles: partialFiles.length > 1 ? partialFiles : undefined,
+      inheritanceChain,
+      fileFound: true,
+      lineRange,
+      methodFound: !!lineRange,
+      manualLineRange: pickedRange ? true : undefined,
+      overloadCount: location?.overloadCount,
+      overloadConfidence: location?.confidence,
+      crashLine,
+      blameRange,
+      hints,
+      candidates,
+      gitBlameResults,
+      sourceLines: sourceLines.length > 0 ? sourceLines : undefined,
+      methodHistory,
+      error: lineRange ? undefined : "Method not found in file. Blamed the crash line recorded in the trace.",
+    })
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error)
+    context.addError({ namespace: entry.namespace, methodName: entry.methodName, message: errorMsg })
+
+    if (currentStep) {
+      tracker.errorStep(currentStep, `${entry.namespace}.${entry.methodName}: ${errorMsg}`)
+    }
+    tracker.skipSteps(remainingSteps)
+
+    context.addResult({
+      ...describeFrame(entry, exceptionId),
+      filePath: "",
+      fileFound: false,
+      lineRange: null,
+      methodFound: false,
+      gitBlameResults: [],
+      error: errorMsg,
+    })
+  }
+}
+
+/**
+ * Summarize the results collected so far in the context
+ */
+export function buildSummary(context: AnalysisContext<AnalysisResult>): AnalysisSummary {
+  const results = context.getResults()
+
+  return {
+    runId: context.runId,
+    totalEntries: results.length,
+    filesFound: results.filter((r) => r.fileFound).length,
+    methodsFound: results.filter((r) => r.methodFound).length,
+    withChanges: results.filter(
+      (r) => r.gitBlameResults.some((g) => g.inDateRange) || (r.methodHistory?.length ?? 0) > 0,
+    ).length,
+    errors: context.getErrors().length,
+    dateRange: {
+      ...context.dateRange,
+      endDate: context.dateRange.endDate ?? new Date().toISOString().split("T")[0],
+    },
+    revisions: context.revisions.length > 0 ? [...context.revisions] : undefined,
+  }
+}
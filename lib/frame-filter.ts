@@ -0,0 +1,101 @@
+/**
+ * Include/exclude rules deciding which stack trace frames are analyzed
+ * Rules match the parsed frame (namespace, method, assembly), never the raw line, so
+ * parameters such as System.String do not hide a frame
+ */
+
+import type { StackTraceEntry } from "./stack-trace-parser"
+
+export type FrameRuleKind = "namespace" | "regex" | "assembly"
+
+export interface FrameRule {
+  kind: FrameRuleKind
+  // namespace: glob over "Namespace.Class" ("System.*", "*.Generated.*")
+  // regex: tested against "Namespace.Class.Method"
+  // assembly: glob over the "Assembly!" prefix of the frame; frames without one never match
+  pattern: string
+  action: "include" | "exclude"
+}
+
+export const FRAME_RULE_KINDS: FrameRuleKind[] = ["namespace", "regex", "assembly"]
+
+/**
+ * Framework and library frames excluded when a repository defines no rules of its own
+ */
+export const DEFAULT_FRAME_RULES: FrameRule[] = [
+  { kind: "namespace", pattern: "System.*", action: "exclude" },
+  { kind: "namespace", pattern: "Microsoft.*", action: "exclude" },
+  { kind: "namespace", pattern: "Newtonsoft.*", action: "exclude" },
+]
+
+/**
+ * Convert a glob to an anchored, case-insensitive regex; "Ns.*" also matches "Ns" itself
+ */
+function globToRegExp(glob: string): RegExp {
+  const trimmed = glob.trim()
+  const body = (trimmed.endsWith(".*") ? trimmed.slice(0, -2) : trimmed)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*")
+
+  return new RegExp(`^${body}${trimmed.endsWith(".*") ? "(?:\\..*)?" : ""}$`, "i")
+}
+
+/**
+ * Check whether a single rule matches a frame
+ * Invalid regexes never match
+ */
+export function matchesFrameRule(entry: StackTraceEntry, rule: FrameRule): boolean {
+  switch (rule.kind) {
+    case "namespace":
+      return globToRegExp(rule.pattern).test(entry.namespace)
+    case "assembly":
+      return !!entry.assembly && globToRegExp(rule.pattern).test(entry.assembly)
+    case "regex":
+      try {
+        return new RegExp(rule.pattern).test(`${entry.namespace}.${entry.methodName}`)
+      } catch {
+        return false
+      }
+  }
+}
+
+/**
+ * Find the rule deciding a frame: the first matching rule wins, and frames matching no rule are kept
+ * Returns the excluding rule, or null when the frame is analyzed
+ */
+export function findExcludingRule(entry: StackTraceEntry, rules: FrameRule[]): FrameRule | null {
+  const rule = rules.find((r) => matchesFrameRule(entry, r))
+  return rule?.action === "exclude" ? rule : null
+}
+
+/**
+ * Short description of a rule for the UI and logs, e.g. "exclude namespace System.*"
+ */
+export function describeFrameRule(rule: FrameRule): string {
+  return `${rule.action} ${rule.kind} ${rule.pattern}`
+}
+
+/**
+ * Check a rule's shape, returning an error message or null when it is valid
+ */
+export function validateFrameRule(rule: unknown): string | null {
+  const candidate = rule as Partial<FrameRule> | null
+  if (!candidate || !FRAME_RULE_KINDS.includes(candidate.kind as FrameRuleKind)) {
+    return "Frame rule kind must be namespace, regex or assembly"
+  }
+  if (typeof candidate.pattern !== "string" || !candidate.pattern.trim()) {
+    return "Frame rule needs a pattern"
+  }
+  if (candidate.action !== "include" && candidate.action !== "exclude") {
+    return `Frame rule "${candidate.pattern}" must include or exclude`
+  }
+  if (candidate.kind === "regex") {
+    try {
+      new RegExp(candidate.pattern)
+    } catch {
+      return `Invalid regular expression "${candidate.pattern}"`
+    }
+  }
+  return null
+}
@@ -0,0 +1,132 @@
+/**
+ * Repository-wide fallback for frames whose source file was not found
+ * Ranks the types declaring the frame's method by class name and namespace similarity, which catches renamed,
+ * shortened and obfuscated type names
+ */
+
+import type { RepositoryConfig } from "./config"
+import type { StackTraceEntry } from "./stack-trace-parser"
+import { loadRepositoryIndex } from "./file-finder"
+
+export interface FrameCandidate {
+  // How the candidate was found: declares the frame's type, is named after its class, or declares a similarly
+  // named type with the frame's method
+  kind: "declaration" | "file-name" | "similar"
+  repository: string
+  // Relative to the repository root
+  relativePath: string
+  // Fully qualified name of the declaring type, for similar declarations
+  typeName?: string
+  line?: number
+  // Ranking score; 0-1 similarity for similar declarations, namespace and path match score otherwise
+  score: number
+}
+
+// Constructors have no name to search for, so only closely named types are offered
+const MIN_CONSTRUCTOR_CLASS_SIMILARITY = 0.6
+
+const DEFAULT_CANDIDATE_LIMIT = 5
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function isSubsequence(short: string, long: string): boolean {
+  let index = 0
+  for (const char of long) {
+    if (char === short[index]) index++
+  }
+  return index === short.length
+}
+
+/**
+ * Similarity of two class names: edit distance, or an abbreviation ("OrderMgr" for "OrderManager")
+ */
+function classSimilarity(a: string, b: string): number {
+  const left = a.toLowerCase()
+  const right = b.toLowerCase()
+  const longest = Math.max(left.length, right.length, 1)
+  const edit = 1 - editDistance(left, right) / longest
+
+  const [short, long] = left.length <= right.length ? [left, right] : [right, left]
+  const abbreviation = short.length > 0 && short[0] === long[0] && isSubsequence(short, long)
+  return Math.max(edit, abbreviation ? 0.5 + (0.5 * short.length) / long.length : 0)
+}
+
+/**
+ * Similarity of two namespaces: leading segments in common, and segments shared anywhere
+ */
+function namespaceSimilarity(a: string[], b: string[]): number {
+  const longest = Math.max(a.length, b.length)
+  if (longest === 0) {
+    return 1
+  }
+
+  const left = a.map((part) => part.toLowerCase())
+  const right = b.map((part) => part.toLowerCase())
+  let leading = 0
+  while (leading < left.length && leading < right.length && left[leading] === right[leading]) {
+    leading++
+  }
+  const shared = left.filter((part) => right.includes(part)).length
+
+  return (0.7 * leading + 0.3 * shared) / longest
+}
+
+/**
+ * Find types across the repositories that declare the frame's method, best match first
+ * Repositories with a commit in revisions are searched at that commit
+ */
+export async function findFrameCandidates(
+  entry: Pick<StackTraceEntry, "namespace" | "methodName" | "nestedType" | "memberKind">,
+  repositories: RepositoryConfig[],
+  revisions: Map<string, string> = new Map(),
+  limit = DEFAULT_CANDIDATE_LIMIT,
+): Promise<FrameCandidate[]> {
+  const frameType = (entry.nestedType ? `${entry.namespace}.${entry.nestedType}` : entry.namespace)
+    .replace(/`\d+/g, "")
+    .split(".")
+  const frameClass = frameType[frameType.length - 1]
+  const isConstructor = entry.memberKind?.endsWith("constructor")
+  const candidates: FrameCandidate[] = []
+
+  for (const repository of repositories) {
+    try {
+      const index = await loadRepositoryIndex(repository.root, revisions.get(repository.name))
+      for (const [typeName, declarations] of index.types) {
+        const parts = typeName.split(".")
+        const similarity = classSimilarity(frameClass, parts[parts.length - 1])
+        if (isConstructor && similarity < MIN_CONSTRUCTOR_CLASS_SIMILARITY) {
+          continue
+        }
+
+        for (const { relativePath, declaration } of declarations) {
+          if (!isConstructor && !declaration.members.includes(entry.methodName)) {
+            continue
+          }
+          const score = 0.6 * similarity + 0.4 * namespaceSimilarity(frameType.slice(0, -1), parts.slice(0, -1))
+          candidates.push({
+            kind: "similar",
+            repository: repository.name,
+            relativePath,
+            typeName,
+            line: declaration.line,
+            score: Math.round(score * 100) / 100,
+          })
+        }
+      }
+    } catch (error) {
+      console.error(`Error searching ${repository.name} for ${entry.methodName}:`, error)
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, limit)
+}
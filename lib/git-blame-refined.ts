@@ -1,16 +1,21 @@
-import { exec } from "child_process"
+import { execFile } from "child_process"
 import { promisify } from "util"
 import { extractPRNumber, getPRUrl } from "./git-advanced"
+import { isInDateRange, type DateRange } from "./date-range"
 
-const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
 
+// Blame of one line of the file: the commit that last changed it, and the line's text
 export interface BlameLineResult {
   lineNumber: number
   commitHash: string
+  // Line number in the commit that last changed it
   originalLine: number
   author: string
   date: string
   commitMessage: string
+  content: string
+  inDateRange: boolean
 }
 
 export interface GitBlameAnalysis {
@@ -26,96 +31,99 @@ export interface GitBlameAnalysis {
 }
 
 /**
- * Perform git blame on specific line range and analyze commits
- * Extended to support 1 year history
+ * Blame each line of a range, as of the given commit when one is passed, instead of the working tree
  */
-export async function analyzeBlameResults(
+export async function blameLines(
   filePath: string,
   lineStart: number | null,
   lineEnd: number | null,
-  startDate: string,
+  dateRange: DateRange,
   projectRoot: string,
-): Promise<GitBlameAnalysis[]> {
+  commit?: string,
+): Promise<BlameLineResult[]> {
   try {
-    let blameCmd = "git blame -l --incremental"
-
-    if (lineStart !== null && lineEnd !== null) {
-      blameCmd += ` -L ${lineStart},${lineEnd}`
-    }
-
-    blameCmd += ` "${filePath}"`
-
-    const { stdout } = await execAsync(blameCmd, {
-      cwd: projectRoot,
-      maxBuffer: 10 * 1024 * 1024,
-    })
-
-    // Parse blame output
-    const commitMap = new Map<string, GitBlameAnalysis>()
-    const startDateObj = new Date(startDate)
-    startDateObj.setHours(0, 0, 0, 0)
-
-    const oneYearAgo = new Date()
-    oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1)
-
-    const lines = stdout.split("\n")
-    let currentCommit: any = null
-
-    for (const line of lines) {
-      if (!line.trim()) continue
-
-      // New commit line format from incremental output
-      const commitMatch = line.match(/^([a-f0-9]+)\s+/)
-      if (commitMatch && !line.includes("\t")) {
-        const hash = commitMatch[1]
+    const range = lineStart !== null && lineEnd !== null ? ["-L", `${lineStart},${lineEnd}`] : []
+    const { stdout } = await execFileAsync(
+      "git",
+      ["blame", "-l", "--porcelain", ...range, ...(commit ? [commit] : []), "--", filePath],
+      { cwd: projectRoot, maxBuffer: 10 * 1024 * 1024 },
+    )
+
+    // Porcelain output prints a commit's metadata only for the first line it owns
+    const commits = new Map<string, { author: string; date: string; commitMessage: string }>()
+    const results: BlameLineResult[] = []
+    let current: { commitHash: string; originalLine: number; lineNumber: number } | null = null
+
+    for (const line of stdout.split("\n")) {
+      if (line.startsWith("\t")) {
+        if (!current) continue
+        const info = commits.get(current.commitHash) ?? { author: "Unknown", date: "", commitMessage: "" }
+        results.push({
+          ...current,
+          ...info,
+          content: line.slice(1).replace(/\r$/, ""),
+          inDateRange: isInDateRange(info.date, dateRange),
+        })
+        current = null
+        continue
+      }
 
-        if (!commitMap.has(hash)) {
-          currentCommit = {
-            commitHash: hash,
-            author: "Unknown",
-            commitDate: "",
-            commitMessage: "",
-            inDateRange: false,
-            withinOneYear: false,
-          }
-          commitMap.set(hash, currentCommit)
+      // "<sha> <original line> <final line> [<lines in group>]" starts each line
+      const header = line.match(/^([a-f0-9]{40}) (\d+) (\d+)/)
+      if (header) {
+        current = { commitHash: header[1], originalLine: Number(header[2]), lineNumber: Number(header[3]) }
+        if (!commits.has(header[1])) {
+          commits.set(header[1], { author: "Unknown", date: "", commitMessage: "" })
         }
+        continue
       }
 
-      // Parse metadata lines
-      if (line.startsWith("author ") && currentCommit) {
-        currentCommit.author = line.replace("author ", "")
-      } else if (line.startsWith("author-time ") && currentCommit) {
+      const info = current && commits.get(current.commitHash)
+      if (!info) continue
+      if (line.startsWith("author ")) {
+        info.author = line.replace("author ", "")
+      } else if (line.startsWith("author-time ")) {
         const timestamp = Number.parseInt(line.replace("author-time ", ""))
-        currentCommit.commitDate = new Date(timestamp * 1000).toISOString().split("T")[0]
-      } else if (line.startsWith("summary ") && currentCommit) {
-        const message = line.replace("summary ", "")
-        currentCommit.commitMessage = message
-
-        // <CHANGE> Updated PR extraction to use new function that returns prSource
-        const { prNumber, prSource } = extractPRNumber(message)
-        if (prNumber) {
-          currentCommit.prNumber = prNumber
-          currentCommit.prSource = prSource
-          currentCommit.prUrl = getPRUrl(prNumber, prSource)
-        }
-
-        // Check if in user-specified date range
-        const commitDateObj = new Date(currentCommit.commitDate)
-        commitDateObj.setHours(0, 0, 0, 0)
-        currentCommit.inDateRange = commitDateObj >= startDateObj
-
-        currentCommit.withinOneYear = commitDateObj >= oneYearAgo
+        info.date = new Date(timestamp * 1000).toISOString().split("T")[0]
+      } else if (line.startsWith("summary ")) {
+        info.commitMessage = line.replace("summary ", "")
       }
     }
 
-    const filtered = Array.from(commitMap.values())
-      .filter((c) => c.withinOneYear)
-      .sort((a, b) => new Date(b.commitDate).getTime() - new Date(a.commitDate).getTime())
-
-    return filtered
+    return results
   } catch (error) {
-    console.error(`Error analyzing blame results:`, error)
+    console.error(`Error blaming lines of ${filePath}:`, error)
     return []
   }
 }
+
+/**
+ * Reduce blamed lines to the distinct commits that own them, newest first
+ * Commits older than a year are left out
+ */
+export function summarizeBlame(lines: BlameLineResult[]): GitBlameAnalysis[] {
+  const oneYearAgo = new Date()
+  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1)
+
+  const commitMap = new Map<string, GitBlameAnalysis>()
+  for (const line of lines) {
+    if (commitMap.has(line.commitHash)) continue
+
+    const { prNumber, prSource } = extractPRNumber(line.commitMessage)
+    commitMap.set(line.commitHash, {
+      commitHash: line.commitHash,
+      author: line.author,
+      commitDate: line.date,
+      commitMessage: line.commitMessage,
+      prNumber,
+      prSource,
+      prUrl: prNumber ? getPRUrl(prNumber, prSource) : undefined,
+      inDateRange: line.inDateRange,
+      withinOneYear: new Date(line.date) >= oneYearAgo,
+    })
+  }
+
+  return Array.from(commitMap.values())
+    .filter((c) => c.withinOneYear)
+    .sort((a, b) => new Date(b.commitDate).getTime() - new Date(a.commitDate).getTime())
+}
@@ -0,0 +1,182 @@
+/**
+ * Diff of one commit for one file, with the analyzed method's lines marked
+ * The method range is traced back to the commit with git log -L, so it lines up with the commit's version of the file
+ * even when later commits moved the method
+ */
+
+import { execFile } from "child_process"
+import { promisify } from "util"
+import { getCommitInfo } from "./git-advanced"
+import { resolveRevision } from "./git-revision"
+import { StackTraceAnalyzerError, ErrorCodes } from "./error-handler"
+
+const execFileAsync = promisify(execFile)
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+
+export interface LineRange {
+  start: number
+  end: number
+}
+
+export interface DiffLine {
+  kind: "context" | "add" | "delete"
+  content: string
+  oldLine?: number
+  newLine?: number
+  // Inside the method's range on the side the line belongs to (old side for deletions, new side otherwise)
+  inMethod: boolean
+}
+
+export interface DiffHunk {
+  header: string
+  lines: DiffLine[]
+  // The hunk adds or deletes lines of the method
+  touchesMethod: boolean
+}
+
+export interface CommitDiff {
+  commitHash: string
+  author: string
+  commitDate: string
+  commitMessage: string
+  // Path of the file in the commit; differs from the analyzed path when the file was renamed since
+  path: string
+  // Method range before (old) and after (new) the commit, when it could be traced back to the commit
+  methodRange?: { old: LineRange | null; new: LineRange }
+  hunks: DiffHunk[]
+}
+
+function parseRange(start: string, count: string | undefined): LineRange | null {
+  const lines = count === undefined ? 1 : Number(count)
+  return lines === 0 ? null : { start: Number(start), end: Number(start) + lines - 1 }
+}
+
+function inRange(line: number | undefined, range: LineRange | null | undefined): boolean {
+  return line !== undefined && !!range && line >= range.start && line <= range.end
+}
+
+/**
+ * Follow a line range of the file at `at` back to the commit with git log -L
+ * Returns the file's path in the commit and the range before and after it, or null when the commit did not touch it
+ */
+async function traceMethodRange(
+  projectRoot: string,
+  commit: string,
+  relativePath: string,
+  lineRange: LineRange,
+  at: string,
+): Promise<{ path: string; range: { old: LineRange | null; new: LineRange } } | null> {
+  try {
+    // Only commits between the analyzed revision and the commit itself are walked
+    const { stdout } = await execFileAsync(
+      "git",
+      ["log", `-L${lineRange.start},${lineRange.end}:${relativePath}`, "--format=%x1e%H", at, "--not", `${commit}^@`],
+      { cwd: projectRoot, maxBuffer: 50 * 1024 * 1024 },
+    )
+
+    const record = stdout.split("\x1e").find((r) => r.startsWith(commit))
+    const path = record?.match(/^\+\+\+ b\/(.+)$/m)?.[1]
+    const header = record?.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/m)
+    const range = header && parseRange(header[3], header[4])
+    if (!path || !header || !range) {
+      return null
+    }
+    return { path, range: { old: parseRange(header[1], header[2]), new: range } }
+  } catch (error) {
+    console.warn(`Could not trace lines ${lineRange.start}-${lineRange.end} of ${relativePath} to ${commit}:`, error)
+    return null
+  }
+}
+
+/**
+ * Split a unified diff into hunks, numbering lines on both sides and marking the method's lines
+ */
+export function parseUnifiedDiff(
+  diff: string,
+  methodRange?: { old: LineRange | null; new: LineRange },
+): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+  let current: DiffHunk | null = null
+  let oldLine = 0
+  let newLine = 0
+
+  for (const line of diff.split("\n")) {
+    const header = line.match(HUNK_HEADER)
+    if (header) {
+      current = { header: line, lines: [], touchesMethod: false }
+      hunks.push(current)
+      oldLine = Number(header[1])
+      newLine = Number(header[3])
+      continue
+    }
+    if (!current || line.startsWith("\\")) {
+      continue
+    }
+
+    if (line.startsWith("+")) {
+      const inMethod = inRange(newLine, methodRange?.new)
+      current.lines.push({ kind: "add", content: line.slice(1), newLine, inMethod })
+      current.touchesMethod ||= inMethod
+      newLine++
+    } else if (line.startsWith("-")) {
+      const inMethod = inRange(oldLine, methodRange?.old)
+      current.lines.push({ kind: "delete", content: line.slice(1), oldLine, inMethod })
+      current.touchesMethod ||= inMethod
+      oldLine++
+    } else if (line.startsWith(" ")) {
+      const inMethod = inRange(newLine, methodRange?.new)
+      current.lines.push({ kind: "context", content: line.slice(1), oldLine, newLine, inMethod })
+      oldLine++
+      newLine++
+    }
+  }
+
+  return hunks
+}
+
+/**
+ * Diff a commit made to a file against its first parent, marking the lines of the analyzed method
+ * lineRange is the method's range in the file at `at` (the analyzed commit, or HEAD for the working tree)
+ */
+export async function getCommitDiff(
+  projectRoot: string,
+  commit: string,
+  relativePath: string,
+  lineRange?: LineRange,
+  at = "HEAD",
+): Promise<CommitDiff> {
+  const hash = await resolveRevision(commit, projectRoot)
+  const info = hash && (await getCommitInfo(hash, projectRoot))
+  if (!hash || !info) {
+    throw new StackTraceAnalyzerError(`Commit ${commit} not found`, ErrorCodes.REVISION_NOT_FOUND, { commit })
+  }
+
+  const traced = lineRange ? await traceMethodRange(projectRoot, hash, relativePath, lineRange, at) : null
+  const path = traced?.path ?? relativePath
+
+  try {
+    // Merge commits are compared with their first parent; root commits with the empty tree
+    const { stdout } = await execFileAsync(
+      "git",
+      ["diff-tree", "-p", "-M", "--root", "-m", "--first-parent", "--no-commit-id", "--no-color", hash, "--", path],
+      { cwd: projectRoot, maxBuffer: 50 * 1024 * 1024 },
+    )
+
+    return {
+      commitHash: hash,
+      author: info.author,
+      commitDate: info.date.split(" ")[0],
+      commitMessage: info.message,
+      path,
+      methodRange: traced?.range,
+      hunks: parseUnifiedDiff(stdout, traced?.range),
+    }
+  } catch (error) {
+    throw new StackTraceAnalyzerError(
+      `Could not diff ${path} at ${commit}: ${error instanceof Error ? error.message : String(error)}`,
+      ErrorCodes.GIT_ERROR,
+      { commit, path },
+    )
+  }
+}
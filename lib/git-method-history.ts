@@ -0,0 +1,91 @@
+import { execFile } from "child_process"
+import { promisify } from "util"
+import * as path from "path"
+import { extractPRNumber, getPRUrl } from "./git-advanced"
+import type { DateRange } from "./date-range"
+
+const execFileAsync = promisify(execFile)
+
+// Separators for git log --format: record (before each commit) and field
+const RECORD_SEPARATOR = "\x1e"
+const FIELD_SEPARATOR = "\x1f"
+
+export interface MethodHistoryCommit {
+  commitHash: string
+  author: string
+  commitDate: string
+  commitMessage: string
+  prNumber?: string
+  prUrl?: string
+  prSource?: "github" | "azure"
+  // Hunks of the commit's diff that touch the method, as printed by git log -L
+  diff: string
+}
+
+/**
+ * List every commit in the date range that changed a line range, following the lines back through earlier edits
+ * Unlike blame, commits whose lines were rewritten later are kept, such as the one that introduced a bug that was
+ * then partially fixed
+ * Line numbers refer to the file at the given commit, or at HEAD when none is passed
+ */
+export async function getMethodHistory(
+  filePath: string,
+  lineStart: number,
+  lineEnd: number,
+  dateRange: DateRange,
+  projectRoot: string,
+  commit?: string,
+): Promise<MethodHistoryCommit[]> {
+  try {
+    const relativePath = path.relative(projectRoot, filePath).split(path.sep).join("/")
+    const format = `${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%ad${FIELD_SEPARATOR}%s`
+    // The end date is inclusive, so commits made during that day are kept
+    const until = dateRange.endDate ? [`--until=${dateRange.endDate} 23:59:59`] : []
+    const { stdout } = await execFileAsync(
+      "git",
+      [
+        "log",
+        `-L${lineStart},${lineEnd}:${relativePath}`,
+        `--since=${dateRange.startDate}`,
+        ...until,
+        "--date=short",
+        `--format=${format}`,
+        ...(commit ? [commit] : []),
+      ],
+      { cwd: projectRoot, maxBuffer: 50 * 1024 * 1024 },
+    )
+
+    const commits: MethodHistoryCommit[] = []
+    for (const record of stdout.split(RECORD_SEPARATOR)) {
+      const headerEnd = record.indexOf("\n")
+      const [commitHash, author, commitDate, commitMessage] = record
+        .slice(0, headerEnd === -1 ? undefined : headerEnd)
+        .split(FIELD_SEPARATOR)
+      if (!commitHash) {
+        continue
+      }
+
+      // Drop the "diff --git", "---" and "+++" header lines; the path is the method's file
+      const patch = headerEnd === -1 ? "" : record.slice(headerEnd + 1)
+      const hunkStart = patch.indexOf("\n@@")
+      const diff = (patch.startsWith("@@") ? patch : hunkStart === -1 ? "" : patch.slice(hunkStart + 1)).trimEnd()
+
+      const { prNumber, prSource } = extractPRNumber(commitMessage ?? "")
+      commits.push({
+        commitHash,
+        author: author || "Unknown",
+        commitDate: commitDate ?? "",
+        commitMessage: commitMessage ?? "",
+        prNumber,
+        prSource,
+        prUrl: prNumber ? getPRUrl(prNumber, prSource) : undefined,
+        diff,
+      })
+    }
+
+    return commits
+  } catch (error) {
+    console.error(`Error querying method history of ${filePath}:`, error)
+    return []
+  }
+}
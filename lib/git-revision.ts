@@ -0,0 +1,262 @@
+/**
+ * Read repositories at a commit instead of the working tree, for crashes from builds older than the checkout
+ * Files are listed with git ls-tree and read with git cat-file, so the user's checkout is never touched
+ */
+
+import { execFile, spawn } from "child_process"
+import { promisify } from "util"
+import * as fs from "fs"
+import * as path from "path"
+import type { RepositoryConfig } from "./config"
+import { StackTraceAnalyzerError, ErrorCodes } from "./error-handler"
+
+const execFileAsync = promisify(execFile)
+
+// Commits never change, so cached trees and files only leave to bound memory
+const MAX_CACHED_TREES = 8
+const MAX_CACHED_FILES = 500
+
+// SHAs, tags, branches, remote branches and ~ / ^ suffixes; nothing the shell would expand
+const REVISION_PATTERN = /^[A-Za-z0-9_][\w./~^@{}-]*$/
+
+/**
+ * Commit a repository is analyzed at, and what it was resolved from
+ */
+export interface AnalyzedRevision {
+  repository: string
+  commit: string
+  // Revision or product version given with the analysis
+  requested: string
+  // How a version was matched: build metadata "+sha" suffix, version map file or tag pattern; unset for revisions
+  resolvedBy?: "build-metadata" | "version-map" | "tag"
+  // Tag, mapped ref or SHA the version matched
+  ref?: string
+}
+
+export interface SourceRevision {
+  root: string
+  // Full commit SHA, as returned by resolveRevision
+  commit: string
+}
+
+const treeCache = new Map<string, Promise<Map<string, string>>>()
+const fileCache = new Map<string, string>()
+
+function remember<T>(cache: Map<string, T>, key: string, value: T, limit: number) {
+  cache.set(key, value)
+  if (cache.size > limit) {
+    cache.delete(cache.keys().next().value as string)
+  }
+}
+
+export function isValidRevision(revision: string): boolean {
+  return REVISION_PATTERN.test(revision) && !revision.includes("..")
+}
+
+/**
+ * Resolve a commit SHA, tag or branch to the full SHA of its commit, or null when the repository does not have it
+ */
+export async function resolveRevision(revision: string, projectRoot: string): Promise<string | null> {
+  if (!isValidRevision(revision)) {
+    return null
+  }
+
+  try {
+    const { stdout } = await execFileAsync("git", ["rev-parse", "--verify", "--quiet", `${revision}^{commit}`], {
+      cwd: projectRoot,
+    })
+    return stdout.trim() || null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Resolve a revision in every repository
+ * Repositories without the revision are left out and analyzed at their working tree; throws when none has it
+ */
+export async function resolveRepositoryRevisions(
+  revision: string,
+  repositories: RepositoryConfig[],
+): Promise<AnalyzedRevision[]> {
+  const revisions: AnalyzedRevision[] = []
+  for (const repository of repositories) {
+    const commit = await resolveRevision(revision, repository.root)
+    if (commit) {
+      revisions.push({ repository: repository.name, commit, requested: revision })
+    } else {
+      console.warn(`Revision ${revision} not found in ${repository.name}, using its working tree`)
+    }
+  }
+
+  if (revisions.length === 0) {
+    throw new StackTraceAnalyzerError(
+      `Revision "${revision}" not found in ${repositories.map((r) => r.name).join(", ")}`,
+      ErrorCodes.REVISION_NOT_FOUND,
+    )
+  }
+  return revisions
+}
+
+/**
+ * Every file in a commit, as relative path ("/"-separated) to blob SHA
+ */
+export function listRevisionFiles(projectRoot: string, commit: string): Promise<Map<string, string>> {
+  const key = `${path.resolve(projectRoot)}@${commit}`
+  const cached = treeCache.get(key)
+  if (cached) {
+    return cached
+  }
+
+  const listing = execFileAsync("git", ["ls-tree", "-r", "-z", "--full-tree", commit], {
+    cwd: projectRoot,
+    maxBuffer: 100 * 1024 * 1024,
+  }).then(({ stdout }) => {
+    const files = new Map<string, string>()
+    for (const record of stdout.split("\0")) {
+      // "<mode> blob <sha>\t<path>"; submodules are "commit" entries and skipped
+      const match = record.match(/^\d+ blob ([0-9a-f]+)\t([\s\S]+)$/)
+      if (match) {
+        files.set(match[2], match[1])
+      }
+    }
+    return files
+  })
+
+  remember(treeCache, key, listing, MAX_CACHED_TREES)
+  // A failed listing is retried on the next lookup instead of being cached
+  listing.catch(() => treeCache.delete(key))
+  return listing
+}
+
+/**
+ * Read many blobs with a single git cat-file --batch, handing each to onBlob as soon as it has arrived
+ * Output is parsed as it streams, so only the blob being received is buffered; blobs missing from the repository
+ * are skipped
+ */
+export function readBlobs(
+  projectRoot: string,
+  blobs: string[],
+  onBlob: (blob: string, content: string) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const git = spawn("git", ["cat-file", "--batch"], { cwd: projectRoot })
+    // Unparsed output, starting at an object header
+    let pending = Buffer.alloc(0)
+    // Chunks held back until the object they complete has fully arrived, and the bytes that takes
+    let held: Buffer[] = []
+    let heldLength = 0
+    let needed = 0
+
+    // Each object is "<sha> <type> <size>\n<content>\n"; unknown ones are "<sha> missing\n"
+    const parse = () => {
+      let offset = 0
+      needed = 0
+      while (offset < pending.length) {
+        const headerEnd = pending.indexOf(10, offset)
+        if (headerEnd === -1) {
+          break
+        }
+        const [sha, type, size] = pending.toString("utf-8", offset, headerEnd).split(" ")
+        if (type === "missing" || size === undefined) {
+          offset = headerEnd + 1
+          continue
+        }
+        const objectEnd = headerEnd + 1 + Number(size) + 1
+        if (objectEnd > pending.length) {
+          needed = objectEnd - offset
+          break
+        }
+        onBlob(sha, pending.toString("utf-8", headerEnd + 1, objectEnd - 1))
+        offset = objectEnd
+      }
+      pending = pending.subarray(offset)
+    }
+
+    git.stdout.on("data", (chunk: Buffer) => {
+      held.push(chunk)
+      heldLength += chunk.length
+      if (pending.length + heldLength < needed) {
+        return
+      }
+      pending = Buffer.concat([pending, ...held])
+      held = []
+      heldLength = 0
+      try {
+        parse()
+      } catch (error) {
+        git.kill()
+        reject(error)
+      }
+    })
+    git.on("error", reject)
+    git.on("close", (code) => {
+      if (code !== 0) {
+        reject(new StackTraceAnalyzerError(`git cat-file exited with code ${code}`, ErrorCodes.GIT_ERROR))
+        return
+      }
+      resolve()
+    })
+
+    git.stdin.end(`${blobs.join("\n")}\n`)
+  })
+}
+
+/**
+ * Path of a file relative to a repository root, "/"-separated as git writes paths on every platform
+ */
+export function toRepositoryPath(root: string, filePath: string): string {
+  return path.relative(root, filePath).split(path.sep).join("/")
+}
+
+function toRevisionPath(filePath: string, revision: SourceRevision): string {
+  return toRepositoryPath(revision.root, filePath)
+}
+
+/**
+ * Check whether a file exists in the working tree, or in the commit when a revision is given
+ */
+export async function hasSourceFile(filePath: string, revision?: SourceRevision): Promise<boolean> {
+  if (!revision) {
+    return fs.existsSync(filePath)
+  }
+  return (await listRevisionFiles(revision.root, revision.commit)).has(toRevisionPath(filePath, revision))
+}
+
+/**
+ * Read a source file from the working tree, or its blob at the commit when a revision is given
+ * Returns null when the file does not exist there
+ */
+export async function readSourceFile(filePath: string, revision?: SourceRevision): Promise<string | null> {
+  if (!revision) {
+    try {
+      return await fs.promises.readFile(filePath, "utf-8")
+    } catch {
+      return null
+    }
+  }
+
+  const relativePath = toRevisionPath(filePath, revision)
+  const blob = (await listRevisionFiles(revision.root, revision.commit)).get(relativePath)
+  if (!blob) {
+    return null
+  }
+
+  // Blobs are content-addressed, so the same file at another commit reuses the cached content
+  const cached = fileCache.get(blob)
+  if (cached !== undefined) {
+    return cached
+  }
+
+  try {
+    const { stdout } = await execFileAsync("git", ["cat-file", "blob", blob], {
+      cwd: revision.root,
+      maxBuffer: 10 * 1024 * 1024,
+    })
+    remember(fileCache, blob, stdout, MAX_CACHED_FILES)
+    return stdout
+  } catch (error) {
+    console.error(`Error reading ${relativePath} at ${revision.commit}:`, error)
+    return null
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Map source paths recorded on build agents (D:\a\1\s\..., /home/vsts/work/1/s/...) to repository-relative paths
+ * Configured prefix rules are tried first, then the longest tail of the path that git tracks
+ */
+
+import { listTrackedFiles } from "./file-finder"
+
+export interface PathMapping {
+  // Build path prefix, e.g. "D:\a\1\s\" or "/home/vsts/work/1/s/"
+  from: string
+  // Repository-relative prefix that replaces it, usually ""
+  to: string
+  // Only apply the rule to this repository
+  repository?: string
+}
+
+export interface MappedPath {
+  relativePath: string
+  mappedBy: "rule" | "auto"
+}
+
+function normalizePath(value: string): string {
+  return value.replace(/\\/g, "/").replace(/\/+/g, "/")
+}
+
+/**
+ * Rewrite a recorded path with the longest matching prefix rule
+ * Matching ignores case and slash direction; returns null when no rule applies
+ */
+export function applyPathMappings(sourcePath: string, mappings: PathMapping[]): string | null {
+  const normalized = normalizePath(sourcePath)
+
+  const rule = mappings
+    .map((mapping) => ({ mapping, from: normalizePath(mapping.from).replace(/\/?$/, "/") }))
+    .filter(({ from }) => normalized.toLowerCase().startsWith(from.toLowerCase()))
+    .sort((a, b) => b.from.length - a.from.length)[0]
+
+  if (!rule) {
+    return null
+  }
+
+  const to = normalizePath(rule.mapping.to).replace(/^\//, "")
+  const rest = normalized.slice(rule.from.length)
+  return to ? `${to.replace(/\/?$/, "/")}${rest}` : rest
+}
+
+/**
+ * Strip leading segments from the recorded path until the remainder is a file git tracks
+ * The first hit keeps the longest tracked tail, which is the most specific match
+ */
+export function detectRepositoryPath(sourcePath: string, trackedFiles: Map<string, string>): string | null {
+  const segments = normalizePath(sourcePath).split("/").filter(Boolean)
+
+  for (let i = 0; i < segments.length; i++) {
+    const tracked = trackedFiles.get(segments.slice(i).join("/").toLowerCase())
+    if (tracked) {
+      return tracked
+    }
+  }
+
+  return null
+}
+
+/**
+ * Map a recorded source path into a repository, returning its tracked relative path
+ * Matches the files of the commit when one is given, instead of the working tree
+ */
+export async function mapSourcePath(
+  sourcePath: string,
+  repository: { name: string; root: string },
+  mappings: PathMapping[],
+  commit?: string,
+): Promise<MappedPath | null> {
+  const trackedFiles = await listTrackedFiles(repository.root, commit)
+
+  const applicable = mappings.filter((m) => !m.repository || m.repository === repository.name)
+  const mapped = applyPathMappings(sourcePath, applicable)
+  if (mapped) {
+    const tracked = trackedFiles.get(mapped.toLowerCase())
+    if (tracked) {
+      return { relativePath: tracked, mappedBy: "rule" }
+    }
+  }
+
+  const detected = detectRepositoryPath(sourcePath, trackedFiles)
+  return detected ? { relativePath: detected, mappedBy: "auto" } : null
+}
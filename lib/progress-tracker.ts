@@ -19,10 +19,17 @@ export class ProgressTracker {
   private totalSteps = 0
   private observers: ((step: ProgressStep) => void)[] = []
 
-  constructor(totalSteps: number) {
+  constructor(
+    totalSteps: number,
+    private label = "",
+  ) {
     this.totalSteps = totalSteps
   }
 
+  private get logPrefix() {
+    return this.label ? `[${this.label}] ` : ""
+  }
+
   subscribe(observer: (step: ProgressStep) => void) {
     this.observers.push(observer)
     // Send all existing steps to new observer
@@ -52,13 +59,27 @@ export class ProgressTracker {
     this.notify(step)
 
     // Also log to console for server-side debugging
-    console.log(`STEP ${step.stepNumber}/${this.totalSteps}: ${stepName}${details ? ` - ${details}` : ""}`)
+    console.log(
+      `${this.logPrefix}STEP ${step.stepNumber}/${this.totalSteps}: ${stepName}${details ? ` - ${details}` : ""}`,
+    )
 
     return step.stepNumber
   }
 
+  /**
+   * Skip steps that will not run (e.g. remaining steps for an entry whose file was not found)
+   * so later step numbers stay aligned with totalSteps
+   */
+  skipSteps(count: number) {
+    this.currentStepNumber = Math.min(this.currentStepNumber + count, this.totalSteps)
+  }
+
+  private findStep(stepNumber: number): ProgressStep | undefined {
+    return this.steps.find((step) => step.stepNumber === stepNumber)
+  }
+
   completeStep(stepNumber: number, details = "") {
-    const step = this.steps[stepNumber - 1]
+    const step = this.findStep(stepNumber)
     if (step) {
       step.status = "success"
       step.details = details
@@ -69,13 +90,13 @@ export class ProgressTracker {
       this.notify(step)
 
       console.log(
-        `STEP ${step.stepNumber}/${this.totalSteps}: ${step.stepName} - SUCCESS${details ? ` (${details})` : ""}`,
+        `${this.logPrefix}STEP ${step.stepNumber}/${this.totalSteps}: ${step.stepName} - SUCCESS${details ? ` (${details})` : ""}`,
       )
     }
   }
 
   errorStep(stepNumber: number, error: string) {
-    const step = this.steps[stepNumber - 1]
+    const step = this.findStep(stepNumber)
     if (step) {
       step.status = "error"
       step.details = error
@@ -83,7 +104,7 @@ export class ProgressTracker {
 
       this.notify(step)
 
-      console.error(`STEP ${step.stepNumber}/${this.totalSteps}: ${step.stepName} - ERROR: ${error}`)
+      console.error(`${this.logPrefix}STEP ${step.stepNumber}/${this.totalSteps}: ${step.stepName} - ERROR: ${error}`)
     }
   }
 
@@ -0,0 +1,199 @@
+/**
+ * Resolve stack trace frames against an ordered list of repositories
+ * Routing rules move matching repositories to the front of the search order for a namespace
+ * Recorded source paths are tried first (as-is, then mapped from build paths) before the name search
+ * Repositories analyzed at a commit are searched in that commit's files instead of the working tree
+ */
+
+import * as path from "path"
+import type { RepositoryConfig, RoutingRule } from "./config"
+import type { StackTraceEntry } from "./stack-trace-parser"
+import {
+  findDeclaringFiles,
+  rankSourceFiles,
+  splitDeclaredInterface,
+  type FileMatch,
+  type FrameTypeName,
+} from "./file-finder"
+import type { FrameCandidate } from "./fuzzy-search"
+import { hasSourceFile, toRepositoryPath } from "./git-revision"
+import { mapSourcePath, type PathMapping } from "./path-mapper"
+
+export type ResolutionMethod =
+  | "recorded-path"
+  | "path-mapping"
+  | "auto-detected"
+  | "declaration"
+  | "name-search"
+  // Picked by the user from the fallback candidates
+  | "manual"
+
+export interface ResolvedSourceFile {
+  repository: RepositoryConfig
+  filePath: string
+  resolution: ResolutionMethod
+  // Every scored file considered by the search that picked filePath, best first, when there was more than one
+  candidates?: FrameCandidate[]
+}
+
+/**
+ * Match a namespace against a routing pattern
+ * "Enterprise.Core.*" matches Enterprise.Core and anything below it; other patterns match exactly
+ */
+export function matchesNamespacePattern(namespace: string, pattern: string): boolean {
+  const normalizedNamespace = namespace.toLowerCase()
+  const normalizedPattern = pattern.trim().toLowerCase()
+
+  if (normalizedPattern.endsWith(".*")) {
+    const prefix = normalizedPattern.slice(0, -2)
+    return normalizedNamespace === prefix || normalizedNamespace.startsWith(`${prefix}.`)
+  }
+
+  return normalizedNamespace === normalizedPattern
+}
+
+/**
+ * Order repositories for a namespace: routed repositories first (most specific rule wins),
+ * then the remaining repositories in their original order
+ */
+export function orderRepositoriesForNamespace(
+  namespace: string,
+  repositories: RepositoryConfig[],
+  routes: RoutingRule[],
+): RepositoryConfig[] {
+  const routed = routes
+    .filter((rule) => matchesNamespacePattern(namespace, rule.namespace))
+    .sort((a, b) => b.namespace.length - a.namespace.length)
+    .map((rule) => repositories.find((r) => r.name === rule.repository))
+    .filter((r): r is RepositoryConfig => !!r)
+
+  const ordered: RepositoryConfig[] = []
+  for (const repository of [...routed, ...repositories]) {
+    if (!ordered.includes(repository)) {
+      ordered.push(repository)
+    }
+  }
+
+  return ordered
+}
+
+/**
+ * Use the source path recorded in the frame when it points into one of the local repositories
+ */
+async function resolveRecordedPath(
+  sourcePath: string,
+  repositories: RepositoryConfig[],
+  revisions: Map<string, string>,
+): Promise<ResolvedSourceFile | null> {
+  if (!path.isAbsolute(sourcePath)) {
+    return null
+  }
+
+  for (const repository of repositories) {
+    const relative = path.relative(repository.root, sourcePath)
+    if (relative && !relative.startsWith("..") && !path.isAbsolute(relative)) {
+      const commit = revisions.get(repository.name)
+      if (!(await hasSourceFile(sourcePath, commit ? { root: repository.root, commit } : undefined))) {
+        return null
+      }
+      return { repository, filePath: path.resolve(sourcePath), resolution: "recorded-path" }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Resolve to the best of a search's scored files, keeping the others as candidates the user can switch to
+ */
+function toResolvedFile(
+  repository: RepositoryConfig,
+  matches: FileMatch[],
+  resolution: "declaration" | "name-search",
+): ResolvedSourceFile {
+  const candidates = matches.map(
+    (match): FrameCandidate => ({
+      kind: resolution === "declaration" ? "declaration" : "file-name",
+      repository: repository.name,
+      relativePath: toRepositoryPath(repository.root, match.path),
+      line: match.line,
+      score: match.score,
+    }),
+  )
+
+  return {
+    repository,
+    filePath: matches[0].path,
+    resolution,
+    candidates: candidates.length > 1 ? candidates : undefined,
+  }
+}
+
+/**
+ * Find the source file for a frame in the first repository that contains it
+ * revisions holds the commit each repository is analyzed at, by repository name; others use the working tree
+ */
+export async function resolveSourceFile(
+  entry: Pick<StackTraceEntry, "namespace" | "sourcePath">,
+  repositories: RepositoryConfig[],
+  routes: RoutingRule[],
+  pathMappings: PathMapping[] = [],
+  revisions: Map<string, string> = new Map(),
+): Promise<ResolvedSourceFile | null> {
+  const { namespace, sourcePath } = entry
+  const ordered = orderRepositoriesForNamespace(namespace, repositories, routes)
+
+  if (sourcePath) {
+    const direct = await resolveRecordedPath(sourcePath, ordered, revisions)
+    if (direct) {
+      return direct
+    }
+
+    for (const repository of ordered) {
+      const mapped = await mapSourcePath(sourcePath, repository, pathMappings, revisions.get(repository.name))
+      if (mapped) {
+        return {
+          repository,
+          filePath: path.join(repository.root, mapped.relativePath),
+          resolution: mapped.mappedBy === "rule" ? "path-mapping" : "auto-detected",
+        }
+      }
+    }
+  }
+
+  // Frames without a usable recorded path use the files that declare their type, then search by file name
+  for (const repository of ordered) {
+    const matches = await findDeclaringFiles(namespace, repository.root, revisions.get(repository.name))
+    if (matches.length > 0) {
+      return toResolvedFile(repository, matches, "declaration")
+    }
+  }
+
+  for (const repository of ordered) {
+    const matches = await rankSourceFiles(namespace, repository.root, sourcePath, revisions.get(repository.name))
+    if (matches.length > 0) {
+      return toResolvedFile(repository, matches, "name-search")
+    }
+  }
+
+  return null
+}
+
+/**
+ * Correct the parser's guess at where an explicit implementation's interface starts, using the first repository that
+ * declares the frame's type; the frame is returned unchanged when none does
+ */
+export async function resolveExplicitInterface<T extends FrameTypeName>(
+  entry: T,
+  repositories: RepositoryConfig[],
+  routes: RoutingRule[],
+  revisions: Map<string, string> = new Map(),
+): Promise<T> {
+  for (const repository of orderRepositoriesForNamespace(entry.namespace, repositories, routes)) {
+    const split = await splitDeclaredInterface(entry, repository.root, revisions.get(repository.name))
+    if (split) {
+      return { ...entry, ...split }
+    }
+  }
+  return entry
+}
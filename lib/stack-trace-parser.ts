@@ -1,57 +1,539 @@
-import { exec } from "child_process"
-import { promisify } from "util"
-
-const execAsync = promisify(exec)
+import { DEFAULT_FRAME_RULES, findExcludingRule, type FrameRule } from "./frame-filter"
 
 export interface StackTraceEntry {
+  // Module prefix written by native and mixed-mode debuggers: "at MyApp.Core!Ns.Class.Method()"
+  assembly?: string
   namespace: string
   methodName: string
   parameters?: string
+  // Parameters parsed from the signature, with CLR type names mapped to C# aliases
+  typedParameters?: FrameParameter[]
+  // Source location from PDB-enabled frames: "in D:\a\1\s\Src\Foo.cs:line 123"
+  sourcePath?: string
+  lineNumber?: number
+  // Set when the frame runs compiler-generated code for a user-written method
+  compilerGenerated?: CompilerGeneratedKind
+  // Name of the local function, when the frame is one; methodName is its enclosing method
+  localFunction?: string
+  // Nested type path below the last namespace segment ("Inner" for Ns.Outer+Inner); namespace names the outer type
+  nestedType?: string
+  // Set for special members; methodName is then the property, the constructed type or the op_* name
+  memberKind?: MemberKind
+  // Interface of an explicit implementation (Ns.Foo.Ns.IBar.Baz implements Ns.IBar.Baz)
+  explicitInterface?: string
+}
+
+export interface FrameParameter {
+  // C# type name without namespaces: "int", "CurrencyManager", "List<int>", "int?", "string[]", or "List`1" when the
+  // frame omits generic arguments
+  type: string
+  name?: string
+  // ref/out/in parameters, printed with a trailing "&"
+  byRef?: boolean
+}
+
+export type CompilerGeneratedKind = "state-machine" | "lambda" | "local-function"
+
+export type MemberKind = "constructor" | "static-constructor" | "getter" | "setter" | "operator"
+
+type MemberName = Pick<StackTraceEntry, "namespace" | "methodName" | "compilerGenerated" | "localFunction">
+
+// CLR type names printed in frames, by their C# alias
+const CSHARP_ALIASES: Record<string, string> = {
+  Boolean: "bool",
+  Byte: "byte",
+  SByte: "sbyte",
+  Char: "char",
+  Decimal: "decimal",
+  Double: "double",
+  Single: "float",
+  Int16: "short",
+  UInt16: "ushort",
+  Int32: "int",
+  UInt32: "uint",
+  Int64: "long",
+  UInt64: "ulong",
+  IntPtr: "nint",
+  UIntPtr: "nuint",
+  Object: "object",
+  String: "string",
+  Void: "void",
+}
+
+// Characters that cannot appear in a Windows or Unix source path (":" is allowed for drive letters)
+const INVALID_PATH_CHARS = /[<>"|?*\x00-\x1f]/
+
+// Roots that start the qualified interface name inside an explicit implementation's method name
+const INTERFACE_ROOTS = new Set(["System", "Microsoft"])
+
+/**
+ * Map compiler-generated names back to the user-written method and its enclosing class
+ * - async and iterator state machines: Ns.Class.<DoWorkAsync>d__12.MoveNext
+ * - lambdas: Ns.Class.<>c__DisplayClass5_0.<Method>b__0, Ns.Class.<>c.<Method>b__5_0
+ * - local functions: Ns.Class.<Method>g__Local|3_0
+ * Returns null for names without generated segments
+ */
+export function demangleMemberName(fullMethod: string): MemberName | null {
+  // Generated types may be nested with "+" (Ns.Class+<DoWorkAsync>d__12.MoveNext) as well as "."
+  const firstGenerated = fullMethod.search(/[.+]</)
+  if (firstGenerated < 1) {
+    return null
+  }
+
+  const generated = fullMethod.slice(firstGenerated + 1)
+
+  // The first <Identifier> is the user-written method; "<>c" display classes have no identifier
+  const methodMatch = generated.match(/<(\.c?ctor|[A-Za-z_]\w*)>/)
+  if (!methodMatch) {
+    return null
+  }
+
+  const localMatch = generated.match(/g__([A-Za-z_]\w*)\|/)
+  let compilerGenerated: CompilerGeneratedKind = "state-machine"
+  if (localMatch) {
+    compilerGenerated = "local-function"
+  } else if (generated.includes(">b__")) {
+    compilerGenerated = "lambda"
+  }
+
+  return {
+    namespace: fullMethod.slice(0, firstGenerated),
+    methodName: methodMatch[1],
+    compilerGenerated,
+    localFunction: localMatch?.[1],
+  }
+}
+
+/**
+ * Split the interface out of an explicit implementation: Ns.Foo.Ns.IBar + Baz -> Ns.Foo, Ns.IBar
+ * The interface starts where the namespace root repeats (or at System/Microsoft) and ends with an I-prefixed name
+ * This is only a guess from the name; analysis corrects it against the types the repository declares
+ */
+function splitExplicitInterface(namespace: string): { namespace: string; explicitInterface?: string } {
+  const segments = namespace.split(".")
+  if (segments.length < 3 || !/^I[A-Z]\w*$/.test(segments[segments.length - 1])) {
+    return { namespace }
+  }
+
+  const start = segments.findIndex((segment, i) => i >= 2 && (segment === segments[0] || INTERFACE_ROOTS.has(segment)))
+  if (start === -1) {
+    return { namespace }
+  }
+
+  return { namespace: segments.slice(0, start).join("."), explicitInterface: segments.slice(start).join(".") }
+}
+
+/**
+ * Normalize metadata names into the members written in source
+ * - generic arity markers: Repo`1 -> Repo
+ * - nested types: Ns.Outer+Inner -> namespace Ns.Outer, nestedType Inner
+ * - .ctor/.cctor -> the constructed type, get_/set_ -> the property (Item is the indexer), op_* -> operators
+ */
+function normalizeMember(member: MemberName): Omit<StackTraceEntry, "parameters" | "sourcePath" | "lineNumber"> {
+  const { namespace: qualified, explicitInterface } = splitExplicitInterface(member.namespace.replace(/`\d+/g, ""))
+  const [namespace, ...nested] = qualified.split("+")
+  const nestedType = nested.length > 0 ? nested.join(".") : undefined
+  const typeName = (nestedType ?? namespace).split(".").pop() ?? namespace
+
+  let methodName = member.methodName
+  let memberKind: MemberKind | undefined
+  const accessor = methodName.match(/^(get|set)_(\w+)$/)
+
+  if (methodName === ".ctor" || methodName === ".cctor") {
+    memberKind = methodName === ".ctor" ? "constructor" : "static-constructor"
+    methodName = typeName
+  } else if (accessor) {
+    memberKind = accessor[1] === "get" ? "getter" : "setter"
+    methodName = accessor[2]
+  } else if (/^op_[A-Z]\w*$/.test(methodName)) {
+    memberKind = "operator"
+  }
+
+  return { ...member, namespace, methodName, nestedType, memberKind, explicitInterface }
+}
+
+/**
+ * Read one CLR type name from position `start`: Ns.Name`N[args] with array suffixes
+ * Generic arguments may be assembly-qualified ([[System.Int32, mscorlib]]); returns null on anything else
+ */
+function readClrType(text: string, start: number): { type: string; end: number } | null {
+  const head = text.slice(start).match(/^\s*([A-Za-z_][\w.+]*)(?:`(\d+))?/)
+  if (!head) {
+    return null
+  }
+
+  let end = start + head[0].length
+  const args: string[] = []
+  // Generic arguments follow the arity marker; brackets holding only commas are array ranks
+  if (head[2] && text[end] === "[" && !/^\[[,\s]*\]/.test(text.slice(end))) {
+    end++
+    while (true) {
+      const qualified = text[end] === "["
+      const arg = readClrType(text, qualified ? end + 1 : end)
+      if (!arg) {
+        return null
+      }
+      args.push(arg.type)
+      end = qualified ? text.indexOf("]", arg.end) + 1 : arg.end
+      if (end === 0 || (text[end] !== "," && text[end] !== "]")) {
+        return null
+      }
+      if (text[end++] === "]") {
+        break
+      }
+    }
+  }
+
+  const arrays = text.slice(end).match(/^(?:\[[,\s]*\])*/)?.[0] ?? ""
+  end += arrays.length
+
+  // Namespaces and enclosing types are dropped: System.Collections.Generic.List`1 -> List
+  const name = head[1].split(/[.+]/).pop() as string
+  let type = CSHARP_ALIASES[name] ?? name
+  if (name === "Nullable" && args.length === 1) {
+    type = `${args[0]}?`
+  } else if (args.length > 0) {
+    type = `${type}<${args.join(", ")}>`
+  } else if (head[2]) {
+    type = `${type}\`${head[2]}`
+  }
+  return { type: `${type}${arrays.replace(/\s/g, "")}`, end }
+}
+
+/**
+ * Map a CLR type name to C#: generic arguments become <...> and Nullable`1 a "?", every name maps to its alias and
+ * loses its namespace
+ * System.Collections.Generic.List`1[System.Int32] -> List<int>, System.Nullable`1[System.Int32] -> int?,
+ * System.Int32[] -> int[]; arity without arguments is kept (List`1)
+ */
+export function toCSharpTypeName(type: string): string {
+  const trimmed = type.trim()
+  const parsed = readClrType(trimmed, 0)
+  return parsed && parsed.end === trimmed.length ? parsed.type : trimmed
+}
+
+/**
+ * Split on commas that are not nested in <>, (), [] or {}
+ */
+export function splitTopLevel(text: string, separator = ","): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ""
+
+  for (const char of text) {
+    if ("<([{".includes(char)) depth++
+    if (">)]}".includes(char)) depth--
+    if (char === separator && depth === 0) {
+      parts.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+
+  if (current.trim()) {
+    parts.push(current)
+  }
+  return parts
+}
+
+/**
+ * Parse a frame's parameter list ("CurrencyManager source, Int32& rowNum") into typed parameters
+ * Frames printed without parameter names keep only the types
+ */
+export function parseParameters(parameters: string): FrameParameter[] {
+  return splitTopLevel(parameters)
+    .map((parameter) => parameter.trim())
+    .filter(Boolean)
+    .map((parameter) => {
+      const match = parameter.match(/^(.*\S)\s+@?([A-Za-z_]\w*)$/)
+      const rawType = match ? match[1] : parameter
+      const byRef = rawType.endsWith("&")
+
+      return {
+        type: toCSharpTypeName(rawType.replace(/&$/, "")),
+        name: match?.[2],
+        byRef: byRef || undefined,
+      }
+    })
+}
+
+/**
+ * Parse a single trimmed "at ..." line into an entry, without any filtering
+ */
+export function parseStackTraceLine(trimmed: string): StackTraceEntry | null {
+  // Match: at [Assembly!]Namespace.Class.Method[GenericArgs](parameters) [in path:line N]
+  const match = trimmed.match(
+    /^at\s+(?:([\w.-]+)!)?((?:[\w.<>|+]|`\d+)+?)(?:\[[^()]*\])?\((.*?)\)(?:\s+in\s+(.+):line\s+(\d+))?\s*$/,
+  )
+  if (!match) {
+    return null
+  }
+
+  const assembly = match[1]
+  const fullMethod = match[2]
+  const parameters = match[3]
+  const typedParameters = parseParameters(parameters)
+  // A recorded path with characters no file system allows is not a real path; search by type name instead
+  const recordedPath = match[4]?.trim()
+  const sourcePath = recordedPath && !INVALID_PATH_CHARS.test(recordedPath) ? recordedPath : undefined
+  const lineNumber = match[5] ? Number.parseInt(match[5]) : undefined
+
+  const demangled = demangleMemberName(fullMethod)
+  if (demangled) {
+    return { assembly, ...normalizeMember(demangled), parameters, typedParameters, sourcePath, lineNumber }
+  }
+
+  // Split namespace and method; constructors keep their leading dot (Ns.Order..ctor)
+  const special = fullMethod.match(/^(.+)\.(\.c?ctor)$/)
+  const lastDot = fullMethod.lastIndexOf(".")
+  if (!special && lastDot <= 0) {
+    return null
+  }
+
+  return {
+    assembly,
+    ...normalizeMember({
+      namespace: special ? special[1] : fullMethod.substring(0, lastDot),
+      methodName: special ? special[2] : fullMethod.substring(lastDot + 1),
+    }),
+    parameters,
+    typedParameters,
+    sourcePath,
+    lineNumber,
+  }
+}
+
+/**
+ * A parsed frame left out of the analysis, with the rule that excluded it
+ */
+export interface FilteredFrame {
+  // Index of the frame's line in ParsedException.lines
+  lineIndex: number
+  entry: StackTraceEntry
+  rule: FrameRule
 }
 
+export interface ParsedException {
+  // Position in the tree: "0" for the outermost exception, "0.1" for its second inner exception
+  id: string
+  type: string
+  message: string
+  frames: StackTraceEntry[]
+  // Every "at ..." line of this exception as written, including filtered frames
+  lines: string[]
+  filteredFrames: FilteredFrame[]
+  innerExceptions: ParsedException[]
+  // True for exceptions without inner exceptions: the root causes of the chain
+  isRootCause: boolean
+}
+
+const EXCEPTION_TYPE_PATTERN = /^[A-Za-z_][\w.`+]*$/
+
+// Prefixes the runtime and common loggers print before the outermost exception header
+const HEADER_PREFIX_PATTERN = /^(?:Unhandled exception\.|Unhandled Exception:)\s*/i
+
 /**
- * Parse stack trace and extract method information
- * Filters out System.* entries
+ * Split an exception header ("Type: message", possibly joined with " ---> ") into its chain
  */
-export function parseStackTrace(stackTrace: string): StackTraceEntry[] {
-  const entries: StackTraceEntry[] = []
-  const lines = stackTrace.split("\n")
+function parseHeaderChain(header: string): { type: string; message: string }[] | null {
+  const chain: { type: string; message: string }[] = []
 
-  for (const line of lines) {
-    const trimmed = line.trim()
-    if (!trimmed.startsWith("at ")) {
-      continue
+  for (const part of header.split(" ---> ")) {
+    const colon = part.indexOf(":")
+    const type = (colon === -1 ? part : part.slice(0, colon)).trim()
+    const message = colon === -1 ? "" : part.slice(colon + 1).trim()
+
+    // Only dotted names or *Exception count as exception types, so ordinary text is not mistaken for one
+    if (!EXCEPTION_TYPE_PATTERN.test(type) || !(type.includes(".") || type.endsWith("Exception"))) {
+      return null
     }
+    chain.push({ type, message })
+  }
 
-    // Skip System.* entries
-    if (trimmed.includes("System.")) {
-      continue
+  return chain
+}
+
+function createException(type: string, message: string): ParsedException {
+  return { id: "", type, message, frames: [], lines: [], filteredFrames: [], innerExceptions: [], isRootCause: false }
+}
+
+/**
+ * Assign tree ids and mark leaves as root causes
+ */
+function finalizeExceptions(exception: ParsedException, id: string) {
+  exception.id = id
+  exception.isRootCause = exception.innerExceptions.length === 0
+  exception.innerExceptions.forEach((inner, index) => finalizeExceptions(inner, `${id}.${index}`))
+}
+
+/**
+ * Parse a full .NET exception dump into a tree of exceptions
+ * Handles "---> Inner: message" chains, "--- End of inner exception stack trace ---" and
+ * AggregateException "(Inner Exception #N)" blocks closed by a "<---" on their last line
+ * Frames of inner exceptions are printed before the frames of the exception that wraps them
+ * Frames excluded by the rules are recorded in filteredFrames instead of frames
+ */
+export function parseExceptionChain(stackTrace: string, rules: FrameRule[] = DEFAULT_FRAME_RULES): ParsedException {
+  let root: ParsedException | null = null
+  // Exceptions from the outermost to the one currently receiving frames
+  let stack: ParsedException[] = []
+
+  const ensureRoot = () => {
+    if (!root) {
+      root = createException("", "")
+      stack = [root]
     }
+    return root
+  }
 
-    // Match: at Namespace.Class.Method(parameters)
-    const match = trimmed.match(/at\s+([\w.]+)$$(.*?)$$\s*$/)
-    if (!match) {
-      continue
+  // Link a header chain below the given owner and make its innermost exception current
+  const attachChain = (owner: ParsedException, chain: { type: string; message: string }[]) => {
+    const ownerIndex = stack.indexOf(owner)
+    stack = stack.slice(0, ownerIndex + 1)
+    let parent = owner
+    for (const { type, message } of chain) {
+      const exception = createException(type, message)
+      parent.innerExceptions.push(exception)
+      stack.push(exception)
+      parent = exception
     }
+  }
 
-    const fullMethod = match[1]
-    const parameters = match[2]
+  // AggregateException owners of the open "(Inner Exception #N)" blocks, innermost last
+  const openBlocks: ParsedException[] = []
 
-    // Split namespace and method
-    const lastDot = fullMethod.lastIndexOf(".")
-    if (lastDot > 0) {
-      const namespace = fullMethod.substring(0, lastDot)
-      const methodName = fullMethod.substring(lastDot + 1)
+  // Aggregate owning an "(Inner Exception #N)" block: the innermost AggregateException receiving frames
+  const findAggregateOwner = () =>
+    [...stack].reverse().find((e) => e.type.endsWith("AggregateException")) ?? ensureRoot()
 
-      entries.push({
-        namespace,
-        methodName,
-        parameters,
-      })
+  // "<---" ends an "(Inner Exception #N)" block: go back to the AggregateException that owns it
+  const closeBlock = () => {
+    const owner = openBlocks.pop() ?? findAggregateOwner()
+    const ownerIndex = stack.indexOf(owner)
+    if (ownerIndex !== -1) {
+      stack = stack.slice(0, ownerIndex + 1)
     }
   }
 
-  return entries
+  const readLine = (trimmed: string) => {
+    if (trimmed.startsWith("at ")) {
+      ensureRoot()
+      const current = stack[stack.length - 1]
+      current.lines.push(trimmed)
+
+      const entry = parseStackTraceLine(trimmed)
+      if (!entry) {
+        return
+      }
+
+      const rule = findExcludingRule(entry, rules)
+      if (rule) {
+        current.filteredFrames.push({ lineIndex: current.lines.length - 1, entry, rule })
+      } else {
+        current.frames.push(entry)
+      }
+      return
+    }
+
+    if (/^--- End of inner exception stack trace ---/.test(trimmed)) {
+      // Never leave the exception that owns an open "(Inner Exception #N)" block
+      const floor = openBlocks.length > 0 ? stack.indexOf(openBlocks[openBlocks.length - 1]) + 2 : 1
+      if (stack.length > floor) {
+        stack.pop()
+      }
+      return
+    }
+
+    const aggregateInner = trimmed.match(/^(?:--->\s*)?\(Inner Exception #\d+\)\s*(.*)$/)
+    if (aggregateInner) {
+      const chain = parseHeaderChain(aggregateInner[1])
+      if (chain) {
+        const owner = findAggregateOwner()
+        openBlocks.push(owner)
+        attachChain(owner, chain)
+      }
+      return
+    }
+
+    if (trimmed.startsWith("--->")) {
+      const chain = parseHeaderChain(trimmed.replace(/^--->\s*/, ""))
+      if (chain) {
+        attachChain(stack[stack.length - 1] ?? ensureRoot(), chain)
+      }
+      return
+    }
+
+    // Other "--- ... ---" markers (e.g. end of stack trace from previous location) carry no structure
+    if (trimmed.startsWith("--- ")) {
+      return
+    }
+
+    const chain = root ? null : parseHeaderChain(trimmed.replace(HEADER_PREFIX_PATTERN, ""))
+    if (chain) {
+      const [outer, ...inner] = chain
+      root = createException(outer.type, outer.message)
+      stack = [root]
+      attachChain(root, inner)
+      return
+    }
+
+    // Multi-line messages continue the current exception's message until its first frame
+    const current = stack[stack.length - 1]
+    if (current && current.type && current.lines.length === 0) {
+      current.message = current.message ? `${current.message}\n${trimmed}` : trimmed
+    }
+  }
+
+  for (const line of stackTrace.split("\n")) {
+    // .NET appends "<---" to the last line of each "(Inner Exception #N)" block: its last frame, or its header when
+    // the exception has no frames; nested blocks end on the same line ("...:line 22<---<---")
+    let trimmed = line.trim()
+    let closedBlocks = 0
+    while (trimmed.endsWith("<---")) {
+      trimmed = trimmed.slice(0, -"<---".length).trimEnd()
+      closedBlocks++
+    }
+
+    if (trimmed) {
+      readLine(trimmed)
+    }
+    for (let i = 0; i < closedBlocks; i++) {
+      closeBlock()
+    }
+  }
+
+  const result: ParsedException = root ?? createException("", "")
+  finalizeExceptions(result, "0")
+  return result
+}
+
+/**
+ * List every exception in the tree, outermost first (depth-first)
+ */
+export function flattenExceptions(exception: ParsedException): ParsedException[] {
+  return [exception, ...exception.innerExceptions.flatMap(flattenExceptions)]
+}
+
+/**
+ * Parse stack trace and extract method information from every exception in the chain
+ * Filters out frames excluded by the rules (System.*, Microsoft.* and Newtonsoft.* by default)
+ */
+export function parseStackTrace(stackTrace: string, rules: FrameRule[] = DEFAULT_FRAME_RULES): StackTraceEntry[] {
+  return flattenExceptions(parseExceptionChain(stackTrace, rules)).flatMap((exception) => exception.frames)
+}
+
+/**
+ * Identify the source member of a frame: Ns.Outer+Inner.getter:Name
+ * Also accepts analysis results, which carry the same fields; the explicit interface is written before the member
+ * kind, so the key stays the same when analysis moves the split between type and interface
+ */
+export function getEntryKey(
+  entry: Pick<StackTraceEntry, "namespace" | "methodName" | "nestedType" | "memberKind" | "explicitInterface">,
+): string {
+  const type = entry.nestedType ? `${entry.namespace}+${entry.nestedType}` : entry.namespace
+  const member = `${entry.memberKind ? `${entry.memberKind}:` : ""}${entry.methodName}`
+  return entry.explicitInterface ? `${type}.${entry.explicitInterface}.${member}` : `${type}.${member}`
 }
 
 /**
@@ -62,7 +544,7 @@ export function deduplicateEntries(entries: StackTraceEntry[]): StackTraceEntry[
   const result: StackTraceEntry[] = []
 
   for (const entry of entries) {
-    const key = `${entry.namespace}.${entry.methodName}`
+    const key = getEntryKey(entry)
     if (!seen.has(key)) {
       seen.add(key)
       result.push(entry)
@@ -0,0 +1,126 @@
+/**
+ * Map product versions from crash reports ("25.3.1042", "25.3.1042+a1b2c3d") to the commit each repository built
+ * Tried in order: an AssemblyInformationalVersion "+sha" suffix, the repository's version map file, then its
+ * version tag patterns
+ */
+
+import * as fs from "fs"
+import * as path from "path"
+import { DEFAULT_VERSION_TAGS, type RepositoryConfig } from "./config"
+import { resolveRevision, type AnalyzedRevision } from "./git-revision"
+import { StackTraceAnalyzerError, ErrorCodes } from "./error-handler"
+
+// Digits and dots, optionally with a prerelease ("-beta.1") and build metadata ("+a1b2c3d")
+const VERSION_PATTERN = /^\d+(?:\.\d+)*(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/
+
+// Abbreviated or full commit SHA in build metadata
+const SHA_PATTERN = /^[0-9a-f]{7,40}$/i
+
+export function isValidVersion(version: string): boolean {
+  return VERSION_PATTERN.test(version)
+}
+
+/**
+ * Split a version into the release part and the commit SHA recorded in its build metadata, if any
+ * "25.3.1042+a1b2c3d" and "25.3.1042+build.7.a1b2c3d" both record a1b2c3d
+ */
+export function parseVersion(version: string): { release: string; sha?: string } {
+  const [release, metadata] = version.split("+", 2)
+  const sha = metadata
+    ?.split(".")
+    .reverse()
+    .find((part) => SHA_PATTERN.test(part))
+  return { release, sha }
+}
+
+/**
+ * Forms of a release a tag may use: as given, and without a trailing ".0" revision (25.3.1042.0 tags as 25.3.1042)
+ */
+function releaseForms(release: string): string[] {
+  return Array.from(new Set([release, release.replace(/^(\d+\.\d+\.\d+)\.0$/, "$1")]))
+}
+
+/**
+ * Read a repository's version map file: a JSON object of version strings to commit SHAs or refs
+ */
+function readVersionMap(repository: RepositoryConfig): Record<string, string> {
+  if (!repository.versionMapFile) {
+    return {}
+  }
+
+  const mapPath = path.resolve(repository.root, repository.versionMapFile)
+  try {
+    const raw = JSON.parse(fs.readFileSync(mapPath, "utf-8"))
+    return Object.fromEntries(
+      Object.entries(raw ?? {}).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
+    )
+  } catch (error) {
+    console.warn(`Could not read version map ${mapPath}:`, error)
+    return {}
+  }
+}
+
+/**
+ * Resolve a product version to the commit one repository built it from, or null when nothing matches
+ */
+export async function resolveVersion(
+  version: string,
+  repository: RepositoryConfig,
+): Promise<Omit<AnalyzedRevision, "repository" | "requested"> | null> {
+  const { release, sha } = parseVersion(version)
+
+  if (sha) {
+    const commit = await resolveRevision(sha, repository.root)
+    if (commit) {
+      return { commit, resolvedBy: "build-metadata", ref: sha }
+    }
+  }
+
+  const versionMap = readVersionMap(repository)
+  for (const key of [version, ...releaseForms(release)]) {
+    const ref = versionMap[key]
+    const commit = ref ? await resolveRevision(ref, repository.root) : null
+    if (commit) {
+      return { commit, resolvedBy: "version-map", ref }
+    }
+  }
+
+  for (const pattern of repository.versionTags ?? DEFAULT_VERSION_TAGS) {
+    for (const form of releaseForms(release)) {
+      const tag = pattern.replace("{version}", form)
+      const commit = await resolveRevision(`refs/tags/${tag}`, repository.root)
+      if (commit) {
+        return { commit, resolvedBy: "tag", ref: tag }
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Resolve a product version in every repository
+ * Repositories without a match are left out and analyzed at their working tree; throws when none matches
+ */
+export async function resolveRepositoryVersions(
+  version: string,
+  repositories: RepositoryConfig[],
+): Promise<AnalyzedRevision[]> {
+  const revisions: AnalyzedRevision[] = []
+  for (const repository of repositories) {
+    const resolved = await resolveVersion(version, repository)
+    if (resolved) {
+      revisions.push({ repository: repository.name, requested: version, ...resolved })
+    } else {
+      console.warn(`Version ${version} not found in ${repository.name}, using its working tree`)
+    }
+  }
+
+  if (revisions.length === 0) {
+    throw new StackTraceAnalyzerError(
+      `Version ${version} matches no tag, version map entry or commit in ${repositories.map((r) => r.name).join(", ")}`,
+      ErrorCodes.REVISION_NOT_FOUND,
+    )
+  }
+  return revisions
+}